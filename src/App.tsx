@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState, useRef } from "react";
+import React, { useEffect, useId, useMemo, useState, useRef } from "react";
 import {
   Plus,
   Wallet,
@@ -13,14 +13,44 @@ import {
   LineChart,     // 👈 add
   PlusCircle,    // 👈 add
   Trash2,        // 👈 add
+  ListOrdered,
+  FolderCog,
+  Archive,
+  Settings,
+  Target,
+  Clock,
+  Radio,
+  BookOpen,
+  Bold,
+  Italic,
+  List,
+  Eye,
+  ImagePlus,
+  Search,
+  Star,
+  BarChart3,
+  Copy,
+  Undo2,
+  Redo2,
+  FileDown,
+  FileUp,
+  FileSpreadsheet,
 } from "lucide-react";
 import html2canvas from "html2canvas";
+import { maxDrawdown, netFlows, roi, timeWeightedReturn, tradeStats, tradingEquity, type EquityPoint } from "./analytics";
+import { openStorage, STORE_NAMES, WriteConflict, type StorageBackend, type WriteOp } from "./storage";
 
 // ────────────────────────────────────────────────────────────────────────────────
 // Types
 // ────────────────────────────────────────────────────────────────────────────────
 
-type HistoryPoint = { t: number; balance: number; openValue: number };
+type HistoryPoint = { t: number; balance: number; openValue: number; usd?: number }; // usd: SOL/USD at t
+
+// How much of the equity series to keep. Points newer than rawHours stay as
+// recorded; older ones are bucketed down to each bucket's low and close.
+type RetentionSettings = { rawHours: number; bucketMinutes: number; maxPoints: number };
+
+const DEFAULT_RETENTION: RetentionSettings = { rawHours: 24, bucketMinutes: 15, maxPoints: 2000 };
 
 type AppState = {
   startingBalance: number | null;
@@ -28,22 +58,187 @@ type AppState = {
   entries: Entry[];
   nextId: number;
   history?: HistoryPoint[];          // 👈 new
+  startedAt?: number; // when the starting balance was set
+  fees?: FeeSettings; // defaults for every trade; modals can override per trade
+  orders?: LimitOrder[];
+  feed?: FeedSettings;
+  retention?: RetentionSettings;
+  cashFlows?: CashFlow[];
+  costMethod?: CostMethod; // for positions opened from now on; default average
+  usd?: UsdSettings;
+  usdRate?: number; // latest SOL/USD; stamped on fills, history points and cash flows
+  usdRates?: RatePoint[]; // every rate change, thinned past RATES_LIMIT
+};
+
+// SOL/USD over time: USD per SOL
+type RatePoint = { t: number; rate: number };
+const RATES_LIMIT = 1000;
+
+// Where the SOL/USD rate comes from: typed in, a random walk, or a recorded series
+type UsdSettings = {
+  source: "manual" | "mock" | "file";
+  intervalSec: number; // mock / file: how often the rate is refreshed
+  volatilityPct?: number; // mock: largest move per tick
+  series?: RatePoint[]; // file: the rate in effect at any time is the last point before it
+};
+
+const DEFAULT_USD: UsdSettings = { source: "manual", intervalSec: 30, volatilityPct: 0.5 };
+
+// How a sell's cost basis is found: one blended average entry, or every buy
+// kept as its own lot and closed oldest-first (FIFO) or newest-first (LIFO).
+type CostMethod = "average" | "fifo" | "lifo";
+type LotMethod = Exclude<CostMethod, "average">;
+
+// Capital moved in or out after the starting balance, kept apart from trading P/L
+type CashFlow = { id: string; t: number; amount: number; note?: string; usd?: number }; // amount: + deposit, − withdrawal
+
+// Where live market caps come from; see makeProvider
+type FeedSettings = {
+  provider: "off" | "mock" | "replay";
+  intervalSec: number;
+  volatilityPct?: number; // mock: largest move per poll
+  failPct?: number; // mock: share of quotes that fail, to exercise backoff
+  replay?: Record<string, number[]>; // replay: mint -> one mcap per poll
+};
+
+const DEFAULT_FEED: FeedSettings = { provider: "off", intervalSec: 10, volatilityPct: 5, failPct: 0 };
+
+// Resting limit buy. While pending it reserves `reserved` SOL out of balance.
+type LimitOrder = {
+  id: string;
+  entryId?: string; // adds to this open position; absent = opens a new one
+  name: string; // token name for new positions (entry name snapshot otherwise)
+  limitMarketCap: number; // fills once the mcap is at or below this
+  sol: number;
+  fees: FeeSettings; // resolved when placed, so the reserve is exact
+  reserved: number; // sol + fee
+  createdAt: number;
+  status: "pending" | "filled" | "cancelled";
+  closedAt?: number;
+  lastMarketCap?: number; // latest mcap seen for a new-position order
+  strategy?: string; // carried onto the position a new-position order opens
+  tags?: string[];
+};
+
+// Per-trade cost: network + priority/Jito tip, plus the DEX swap fee on the SOL leg
+type FeeSettings = { fixedSOL: number; swapPct: number };
+type FeeOverride = { feeFixed: string; feePct: string }; // blank = use the default
+
+const DEFAULT_FEES: FeeSettings = { fixedSOL: 0, swapPct: 0 };
+const NO_FEE_OVERRIDE: FeeOverride = { feeFixed: "", feePct: "" };
+
+// A finished session, captured by Reset
+type ArchivedSession = {
+  id: string;
+  portfolioId: string;
+  portfolioName: string;
+  startedAt: number;
+  endedAt: number;
+  version: number; // schema of `state`, upgraded on load
+  state: AppState;
+};
+
+const ARCHIVE_KEY = "sol-paper-trading-archive-v1"; // before IndexedDB; moved into the archive store on first read
+
+// Per-token links on EntryCard; `{mint}` in the URL is replaced. Shared by all portfolios.
+type TokenLink = { label: string; url: string };
+
+const LINKS_KEY = "sol-paper-trading-links-v1";
+const DEFAULT_LINKS: TokenLink[] = [
+  { label: "Solscan", url: "https://solscan.io/token/{mint}" },
+  { label: "DexScreener", url: "https://dexscreener.com/solana/{mint}" },
+  { label: "Birdeye", url: "https://birdeye.so/token/{mint}?chain=solana" },
+];
+
+// Saved as a versioned envelope per portfolio (`${STORAGE_KEY}:${id}`);
+// older layouts are upgraded by MIGRATIONS.
+const STORAGE_KEY = "sol-paper-trading-state";
+const LEGACY_STORAGE_KEYS = ["sol-paper-trading-state-v2", "sol-paper-trading-state-v1"];
+const SCHEMA_VERSION = 9;
+
+type PortfolioMeta = { id: string; name: string; createdAt: number };
+type PortfolioIndex = { activeId: string; portfolios: PortfolioMeta[] };
+
+const PORTFOLIOS_KEY = "sol-paper-trading-portfolios-v1";
+
+// One execution against a position. Fills are append-only: the aggregates on
+// Entry are always re-derived from them, never edited in place.
+type Fill = {
+  side: "buy" | "sell" | "adjust"; // adjust = manual edit of avg entry / size
+  marketCap: number; // fill mcap (adjust: new avg entry mcap)
+  sol: number; // buy: SOL spent; sell: base SOL sold; adjust: new open size
+  solReturned: number; // sell: SOL received before fees; 0 otherwise
+  fee: number; // SOL paid on top of a buy / deducted from a sell's proceeds
+  quotedMarketCap?: number; // mcap the user saw when pool slippage moved the fill
+  trigger?: string; // id of the ExitRule that executed this sell
+  order?: string; // id of the LimitOrder that executed this buy
+  usd?: number; // SOL/USD when it executed
+  note?: string; // journal: why this buy / sell
+  t: number;
+};
+
+// Undo steps keep everything but the graph series and the SOL/USD rate, which only ever move forward
+type Snapshot = Omit<AppState, "history" | "usdRate" | "usdRates">;
+type UndoStep = { label: string; state: Snapshot };
+type Timeline = { present: AppState; past: UndoStep[]; future: UndoStep[] };
+
+const UNDO_KEY = "sol-paper-trading-undo-v1";
+const UNDO_LIMIT = 50;
+
+// Take-profit / stop-loss, relative to the average entry mcap at trigger time.
+// Each rule fires once, on the first mcap update that crosses its level.
+type ExitRule = {
+  id: string;
+  kind: "tp" | "sl";
+  multiple: number; // trigger at avg entry × multiple (TP 3x = 3, SL -40% = 0.6)
+  sellPct: number; // % of what is still open when it fires (100 = the rest)
+  firedAt?: number;
 };
 
-const STORAGE_KEY = "sol-paper-trading-state-v2"; // 👈 bump key
+type McapMark = { t: number; mcap: number };
+
+const MARKS_LIMIT = 500; // per entry; the series is thinned to half past this
+
+// A chart screenshot. The image itself lives in the "attachments" store (see shotKey).
+type Shot = { id: string; name: string; type: string; bytes: number; t: number };
+
+type Journal = {
+  thesis?: string; // why we bought, in RichText markup
+  review?: string; // post-trade review, in RichText markup
+  rating?: number; // 1–5 self-rating of the trade
+  shots?: Shot[];
+};
 
 type Entry = {
   id: string;
   name: string;
-  entryMarketCap: number; // weighted average mcap while open; fixed at close
+  mint?: string; // base58 token mint address; the market data feed is keyed by it
+  ticker?: string; // without the $
+  notes?: string;
+  strategy: string; // the setup it was taken on (e.g. "Launch snipe"); analytics group by it
+  tags?: string[]; // free-form, lowercase
+  journal?: Journal;
+  supply?: number; // total token supply; enables price = mcap / supply. All math stays in mcap.
   currentMarketCap?: number; // latest mcap the user set (displayed under name)
-  solInvested: number; // current open SOL invested
   status: "open" | "sold";
+  // Optional pool depth for slippage: SOL side of the pool, as seen at liquidityMarketCap
+  liquiditySOL?: number;
+  liquidityMarketCap?: number;
+  exitRules?: ExitRule[];
+  costMethod?: LotMethod; // fixed when opened; absent = average cost
+  marks?: McapMark[]; // every mcap the position was marked at: updates, buys, sells
+  peakMarketCap?: number; // highest mcap seen while open (marks and fills)
+  troughMarketCap?: number; // lowest mcap seen while open
+  fills: Fill[];
+  // ── Derived from fills (see summarizeFills) ──
+  entryMarketCap: number; // weighted average mcap while open; fixed at close
+  solInvested: number; // current open SOL invested
   // DCA tracking
   cumulativeBuySOL?: number; // total SOL ever bought
   cumulativeSellAmount?: number; // total SOL base sold
   cumulativeSellReturnedSOL?: number; // total SOL returned from sells
-  realizedPnl?: number; // realized across partial sells
+  realizedPnl?: number; // realized across partial sells, net of all fees
+  cumulativeFeesSOL?: number; // total fees paid on this position
   // Final close snapshot
   sellMarketCap?: number; // last sell mcap
   solReturned?: number; // total returned across all sells
@@ -53,43 +248,1814 @@ type Entry = {
 };
 
 
-function saveState(state: AppState) {
-  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(state)); } catch {}
+function emptyState(): AppState {
+  return { startingBalance: null, balance: 0, entries: [], nextId: 1, history: [] };
 }
 
-function loadState(): AppState {
+function stateKey(portfolioId: string) { return `${STORAGE_KEY}:${portfolioId}`; }
+function undoKey(portfolioId: string) { return `${UNDO_KEY}:${portfolioId}`; }
+
+function loadState(key: string): AppState {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return { startingBalance: null, balance: 0, entries: [], nextId: 1, history: [] };
-    const parsed = JSON.parse(raw);
-    if (!parsed || typeof parsed.balance !== "number" || !Array.isArray(parsed.entries)) {
-      return { startingBalance: null, balance: 0, entries: [], nextId: 1, history: [] };
+    const raw = localStorage.getItem(key);
+    if (raw === null) return emptyState();
+    const result = parseBackup(raw);
+    if (result.ok) return result.state;
+    // Keep the unreadable blob around instead of letting the next save overwrite it
+    localStorage.setItem(`${STORAGE_KEY}-rejected`, raw);
+    return emptyState();
+  } catch {
+    return emptyState();
+  }
+}
+
+// ── IndexedDB layout (see storage.ts); every key starts with the portfolio id ──
+// settings `${pid}/state`           everything but entries and history, plus entry order
+// entries  `${pid}/${entryId}`       an entry without its fills
+// fills    `${pid}/${entryId}/${i}`  one fill; i zero-padded so key order is ledger order
+// history  `${pid}/${t}`             one equity point; t zero-padded
+// archive  `${pid}/${sessionId}`     one ArchivedSession, kept when the portfolio is deleted
+type StoredSettings = Omit<AppState, "entries" | "history"> & { version: number; entryIds: string[]; rev?: number };
+
+// Tabs announce every write here as { pid, rev } so the others can pull it
+const SYNC_CHANNEL = "sol-paper-trader-sync";
+
+// Bumped by every write to a portfolio; a write is only accepted on top of the rev it read
+function storedRev(settings: unknown) { return isObj(settings) && typeof settings.rev === "number" ? settings.rev : 0; }
+
+const pad0 = (n: number, width: number) => String(n).padStart(width, "0");
+const fillKey = (pid: string, entryId: string, i: number) => `${pid}/${entryId}/${pad0(i, 6)}`;
+const historyKey = (pid: string, t: number) => `${pid}/${pad0(t, 15)}`;
+const shotKey = (pid: string, entryId: string, shotId: string) => `${pid}/${entryId}/${shotId}`;
+
+type ShotRecord = { id: string; blob: Blob };
+
+function shotWrites(pid: string, entryId: string, added: ShotRecord[]): WriteOp[] {
+  return added.map(r => ({ store: "attachments" as const, put: shotKey(pid, entryId, r.id), value: r }));
+}
+
+// Keys of every screenshot shown in `states`
+function usedShots(pid: string, states: Pick<AppState, "entries">[]): Set<string> {
+  return new Set(states.flatMap(s => s.entries.flatMap(e => (e.journal?.shots ?? []).map(x => shotKey(pid, e.id, x.id)))));
+}
+
+function clearPortfolio(pid: string): WriteOp[] {
+  return STORE_NAMES.filter(store => store !== "archive").map(store => ({ store, clearPrefix: `${pid}/` }));
+}
+
+// The records that turn the stored copy of `prev` into `next`. State updates are
+// immutable, so an unchanged entry, fill or point is the same object and is skipped.
+// prev = null rewrites the portfolio from scratch.
+function stateWrites(pid: string, prev: AppState | null, next: AppState, rev = 0): WriteOp[] {
+  // Screenshots are written on their own (see shotWrites) and deleted once unused (see collectShots)
+  const ops: WriteOp[] = prev ? [] : clearPortfolio(pid).filter(op => op.store !== "attachments");
+  const { entries, history = [], ...rest } = next;
+  const settings: StoredSettings = { ...rest, version: SCHEMA_VERSION, entryIds: entries.map(e => e.id), rev };
+  ops.push({ store: "settings", put: `${pid}/state`, value: settings });
+
+  const before = new Map(prev?.entries.map(e => [e.id, e]));
+  for (const e of entries) {
+    const old = before.get(e.id);
+    before.delete(e.id);
+    if (old === e) continue;
+    const { fills, ...record } = e;
+    ops.push({ store: "entries", put: `${pid}/${e.id}`, value: record });
+    if (old?.fills === fills) continue;
+    fills.forEach((f, i) => { if (old?.fills[i] !== f) ops.push({ store: "fills", put: fillKey(pid, e.id, i), value: f }); });
+    for (let i = fills.length; i < (old?.fills.length ?? 0); i++) ops.push({ store: "fills", del: fillKey(pid, e.id, i) });
+  }
+  for (const id of before.keys()) {
+    ops.push({ store: "entries", del: `${pid}/${id}` }, { store: "fills", clearPrefix: `${pid}/${id}/` });
+  }
+
+  const prevHistory = prev?.history ?? [];
+  if (prevHistory !== history) {
+    const kept = new Set(history);
+    const times = new Set(history.map(h => h.t));
+    for (const h of prevHistory) if (!kept.has(h) && !times.has(h.t)) ops.push({ store: "history", del: historyKey(pid, h.t) });
+    const had = new Set(prevHistory);
+    for (const h of history) if (!had.has(h)) ops.push({ store: "history", put: historyKey(pid, h.t), value: h });
+  }
+  return ops;
+}
+
+// `stored` = false when nothing was in IndexedDB yet: the state was adopted from
+// the pre-IndexedDB localStorage copy (or is empty), and the first save writes it all.
+// Also false after a migration, since the upgraded records must all be rewritten.
+type LoadedPortfolio = { state: AppState; stored: boolean; rev: number };
+
+async function loadPortfolioState(backend: StorageBackend, pid: string): Promise<LoadedPortfolio> {
+  const settings = await backend.get("settings", `${pid}/state`) as StoredSettings | undefined;
+  if (!settings) return { state: loadState(stateKey(pid)), stored: false, rev: 0 };
+
+  const { version, entryIds, rev = 0, ...rest } = settings;
+  const records = new Map((await backend.getPrefix("entries", `${pid}/`) as Entry[]).map(e => [e.id, e]));
+  const entries = await Promise.all(entryIds.filter(id => records.has(id)).map(async id => ({
+    ...records.get(id)!,
+    fills: await backend.getPrefix("fills", `${pid}/${id}/`) as Fill[],
+  })));
+  const history = await backend.getPrefix("history", `${pid}/`) as HistoryPoint[];
+  const result = upgradeBackup({ version, state: { ...rest, entries, history } });
+  if (result.ok) return { state: result.state, stored: version >= SCHEMA_VERSION, rev };
+  // Keep a copy before the next save replaces it
+  try { localStorage.setItem(`${STORAGE_KEY}-rejected`, JSON.stringify({ version, state: { ...rest, entries, history } })); } catch { /* too big to keep */ }
+  return { state: emptyState(), stored: false, rev };
+}
+
+function fillCount(s: AppState) { return s.entries.reduce((n, e) => n + e.fills.length, 0); }
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Both tabs changed the same entry since `b`. Fills are append-only, so both
+// sides' new fills are kept. A limit order or TP/SL rule that fired in both
+// tabs keeps only the other tab's fill; `balanceFix` undoes ours.
+function mergeEntry(b: Entry, l: Entry, r: Entry, remoteFilledOrders: Set<string>, notes: string[]): { entry: Entry; balanceFix: number } {
+  const n = b.fills.length;
+  const extendsBase = (e: Entry) => e.fills.length >= n && same(e.fills.slice(0, n), b.fills);
+  let balanceFix = 0;
+  let fills = l.fills;
+  if (extendsBase(l) && extendsBase(r)) {
+    const remoteRules = new Set((r.exitRules ?? []).filter(x => x.firedAt && !b.exitRules?.find(y => y.id === x.id)?.firedAt).map(x => x.id));
+    const ours = l.fills.slice(n).filter(f => {
+      const dup = (f.order && remoteFilledOrders.has(f.order)) || (f.trigger && remoteRules.has(f.trigger));
+      if (dup) {
+        balanceFix += f.side === "buy" ? f.sol + f.fee : -(f.solReturned - f.fee);
+        notes.push(`${l.name}: the same ${f.order ? "limit order" : "exit rule"} also executed in the other tab; kept that fill only.`);
+      }
+      return !dup;
+    });
+    fills = [...b.fills, ...[...r.fills.slice(n), ...ours].sort((x, y) => x.t - y.t)];
+  } else {
+    notes.push(`${l.name}: ledgers diverged; kept this tab's fills.`);
+  }
+
+  const pick = <K extends keyof Entry>(k: K): Entry[K] => {
+    if (same(l[k], b[k])) return r[k];
+    if (!same(r[k], b[k]) && !same(r[k], l[k])) notes.push(`${l.name}: ${String(k)} changed in both tabs; kept this tab's.`);
+    return l[k];
+  };
+  const byT = new Map([...(r.marks ?? []), ...(l.marks ?? [])].map(m => [m.t, m]));
+  const marks = [...byT.values()].sort((x, y) => x.t - y.t);
+  const rules = same(l.exitRules, b.exitRules) ? r.exitRules : same(r.exitRules, b.exitRules) ? l.exitRules
+    : [...new Map([...(l.exitRules ?? []), ...(r.exitRules ?? [])].map(x => [x.id, x])).values()]
+      .map(x => ({ ...x, firedAt: l.exitRules?.find(y => y.id === x.id)?.firedAt ?? r.exitRules?.find(y => y.id === x.id)?.firedAt }));
+
+  const entry: Entry = {
+    ...r,
+    name: pick("name"), mint: pick("mint"), ticker: pick("ticker"), notes: pick("notes"), supply: pick("supply"),
+    strategy: pick("strategy"), tags: pick("tags"), journal: pick("journal"),
+    liquiditySOL: pick("liquiditySOL"), liquidityMarketCap: pick("liquidityMarketCap"),
+    exitRules: rules,
+    marks,
+    currentMarketCap: marks.length ? marks[marks.length - 1].mcap : pick("currentMarketCap"),
+    peakMarketCap: Math.max(l.peakMarketCap ?? 0, r.peakMarketCap ?? 0) || undefined,
+    troughMarketCap: Math.min(l.troughMarketCap ?? Infinity, r.troughMarketCap ?? Infinity) === Infinity ? undefined : Math.min(l.troughMarketCap ?? Infinity, r.troughMarketCap ?? Infinity),
+    fills,
+    ...summarizeFills(fills, l.costMethod),
+  };
+  return { entry, balanceFix };
+}
+
+// Three-way merge of this tab's state (`local`) with what another tab saved
+// (`remote`), both descended from `base`. Trades from both sides are kept;
+// for anything else changed on both sides this tab wins, and `notes` says so.
+function mergeStates(base: AppState, local: AppState, remote: AppState): { state: AppState; notes: string[] } {
+  const notes: string[] = [];
+  const baseE = new Map(base.entries.map(e => [e.id, e]));
+  const localE = new Map(local.entries.map(e => [e.id, e]));
+  const remoteE = new Map(remote.entries.map(e => [e.id, e]));
+  const baseO = new Map((base.orders ?? []).map(o => [o.id, o]));
+  const remoteFilled = new Set((remote.orders ?? []).filter(o => o.status === "filled" && baseO.get(o.id)?.status !== "filled").map(o => o.id));
+  let balance = remote.balance + (local.balance - base.balance);
+  let nextId = Math.max(local.nextId, remote.nextId);
+
+  // Both tabs numbered their new entries from the same nextId: ours move up
+  const renumber = new Map<string, string>();
+  for (const e of local.entries) if (!baseE.has(e.id) && remoteE.has(e.id)) renumber.set(e.id, String(nextId++));
+
+  const entries: Entry[] = [];
+  for (const r of remote.entries) {
+    const b = baseE.get(r.id), l = renumber.has(r.id) ? undefined : localE.get(r.id);
+    if (!b || !l || same(l, b)) entries.push(r);
+    else if (same(r, b)) entries.push(l);
+    else {
+      const m = mergeEntry(b, l, r, remoteFilled, notes);
+      entries.push(m.entry);
+      balance += m.balanceFix;
     }
-    if (!Array.isArray(parsed.history)) parsed.history = [];
-    // Ensure required fields
-    return {
-      startingBalance: parsed.startingBalance ?? null,
-      balance: parsed.balance,
-      entries: parsed.entries,
-      nextId: parsed.nextId ?? 1,
-      history: parsed.history,
-    };
+  }
+  for (const l of local.entries) {
+    if (remoteE.has(l.id) && !renumber.has(l.id)) continue;
+    if (baseE.has(l.id) && same(l, baseE.get(l.id))) continue; // removed in the other tab (reset)
+    const order = l.fills[0]?.order;
+    if (order && remoteFilled.has(order)) {
+      balance += l.fills[0].sol + l.fills[0].fee;
+      notes.push(`${l.name}: the limit order that opened it also filled in the other tab; kept that position only.`);
+      continue;
+    }
+    entries.push(renumber.has(l.id) ? { ...l, id: renumber.get(l.id)! } : l);
+  }
+  if (renumber.size) notes.push(`Renumbered ${renumber.size} new position${renumber.size === 1 ? "" : "s"} opened in both tabs at once.`);
+  entries.sort((a, b) => Number(b.id) - Number(a.id));
+
+  const localO = new Map((local.orders ?? []).map(o => [o.id, o]));
+  const orders: LimitOrder[] = [];
+  for (const r of remote.orders ?? []) {
+    const l = localO.get(r.id), b = baseO.get(r.id);
+    localO.delete(r.id);
+    orders.push(!l || same(l, b) ? r : same(r, b) ? l : r.status !== "pending" ? r : l);
+  }
+  for (const l of localO.values()) orders.push(l.entryId && renumber.has(l.entryId) ? { ...l, entryId: renumber.get(l.entryId) } : l);
+
+  const flows = new Map([...(remote.cashFlows ?? []), ...(local.cashFlows ?? [])].map(f => [f.id, f]));
+  const cashFlows = [...flows.values()].sort((a, b) => a.t - b.t);
+
+  const rates = new Map([...(remote.usdRates ?? []), ...(local.usdRates ?? [])].map(r => [r.t, r]));
+  const usdRates = [...rates.values()].sort((a, b) => a.t - b.t);
+
+  const setting = <K extends "startingBalance" | "startedAt" | "fees" | "feed" | "retention" | "costMethod" | "usd">(k: K) => same(local[k], base[k]) ? remote[k] : local[k];
+  const byT = new Map([...(remote.history ?? []), ...(local.history ?? [])].map(h => [h.t, h]));
+  const retention = setting("retention");
+  const history = compactHistory([...byT.values()].sort((a, b) => a.t - b.t), retention ?? DEFAULT_RETENTION);
+
+  return {
+    state: {
+      startingBalance: setting("startingBalance"), startedAt: setting("startedAt"),
+      fees: setting("fees"), feed: setting("feed"), retention, costMethod: setting("costMethod"),
+      usd: setting("usd"), usdRates, usdRate: usdRates.length ? usdRates[usdRates.length - 1].rate : local.usdRate ?? remote.usdRate,
+      balance: Math.max(0, balance), entries, nextId, orders, history, cashFlows,
+    },
+    notes,
+  };
+}
+
+function savePortfolios(index: PortfolioIndex) {
+  try { localStorage.setItem(PORTFOLIOS_KEY, JSON.stringify(index)); } catch { /* storage full: portfolio list changes are lost on reload */ }
+}
+
+function loadPortfolios(): PortfolioIndex {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PORTFOLIOS_KEY) ?? "null");
+    if (parsed && Array.isArray(parsed.portfolios) && parsed.portfolios.length > 0) {
+      const activeId = parsed.portfolios.some((p: PortfolioMeta) => p.id === parsed.activeId) ? parsed.activeId : parsed.portfolios[0].id;
+      return { activeId, portfolios: parsed.portfolios };
+    }
+  } catch { /* fall through to a fresh index */ }
+  // First run with portfolios: adopt the single pre-portfolio session as "Main"
+  const main: PortfolioMeta = { id: newPortfolioId(), name: "Main", createdAt: Date.now() };
+  try {
+    const legacyKey = [STORAGE_KEY, ...LEGACY_STORAGE_KEYS].find(k => localStorage.getItem(k) !== null);
+    if (legacyKey) localStorage.setItem(stateKey(main.id), localStorage.getItem(legacyKey)!);
+    const undo = localStorage.getItem(UNDO_KEY);
+    if (undo !== null) localStorage.setItem(undoKey(main.id), undo);
+  } catch { /* nothing to adopt */ }
+  const index = { activeId: main.id, portfolios: [main] };
+  savePortfolios(index);
+  return index;
+}
+
+function newPortfolioId() { return `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`; }
+
+const archiveKey = (a: Pick<ArchivedSession, "portfolioId" | "id">) => `${a.portfolioId}/${a.id}`;
+
+function rawArchive(): unknown[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ARCHIVE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
   } catch {
-    return { startingBalance: null, balance: 0, entries: [], nextId: 1, history: [] };
+    return [];
   }
 }
 
+function readArchived(a: unknown): ArchivedSession | null {
+  if (!isObj(a)) return null;
+  const result = upgradeBackup({ version: a.version, state: a.state });
+  return result.ok ? { ...(a as ArchivedSession), version: SCHEMA_VERSION, state: result.state } : null;
+}
+
+const archiveAdopted = new WeakSet<StorageBackend>(); // backends the localStorage archive was moved into
+
+// Every archived session this build can read. Each is its own record, so the
+// unreadable ones are simply left alone. The localStorage list is moved over once.
+async function loadArchive(backend: StorageBackend): Promise<ArchivedSession[]> {
+  const legacy = archiveAdopted.has(backend) ? [] : rawArchive();
+  if (legacy.length) {
+    await backend.write(legacy.map((a, i) => ({
+      store: "archive" as const,
+      put: isObj(a) && typeof a.portfolioId === "string" && typeof a.id === "string" ? archiveKey(a as ArchivedSession) : `unknown/${i}`,
+      value: a,
+    })));
+    // In the memory fallback the list is all there is; keep it
+    if (backend.kind === "indexeddb") try { localStorage.removeItem(ARCHIVE_KEY); } catch { /* moved again next time, same keys */ }
+  }
+  archiveAdopted.add(backend);
+  return (await backend.getPrefix("archive", "")).flatMap(a => readArchived(a) ?? []).sort((a, b) => a.endedAt - b.endedAt);
+}
+
+function saveLinks(links: TokenLink[]) {
+  try { localStorage.setItem(LINKS_KEY, JSON.stringify(links)); } catch { /* storage full: link edits are lost on reload */ }
+}
+
+function loadLinks(): TokenLink[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LINKS_KEY) ?? "null");
+    if (!Array.isArray(parsed)) return DEFAULT_LINKS;
+    return parsed.filter((l: TokenLink) => typeof l?.label === "string" && linkTemplateError(l.url) === null);
+  } catch {
+    return DEFAULT_LINKS;
+  }
+}
+
+// Best guess for sessions created before startedAt was recorded
+function sessionStart(s: AppState): number {
+  return s.startedAt ?? Math.min(Date.now(), s.history?.[0]?.t ?? Infinity, ...s.entries.map(e => e.fills[0]?.t ?? Infinity));
+}
+
+// Starting balance, then every recorded point, then now, for the analytics functions
+function equitySeries(s: AppState): EquityPoint[] {
+  const openValue = s.entries.filter(e => e.status === "open").reduce((sum, e) => sum + positionValue(e), 0);
+  return [
+    ...(s.startingBalance !== null ? [{ t: sessionStart(s), equity: s.startingBalance }] : []),
+    ...(s.history ?? []).map(h => ({ t: h.t, equity: h.balance + h.openValue })),
+    { t: Date.now(), equity: s.balance + openValue },
+  ];
+}
+
+// Equity vs. the capital put in: net deposits, P/L excluding them and time-weighted return
+function capitalStats(s: AppState) {
+  const series = equitySeries(s);
+  const flows = s.cashFlows ?? [];
+  const equity = series[series.length - 1].equity;
+  const capital = (s.startingBalance ?? 0) + netFlows(flows);
+  return { equity, netDeposits: netFlows(flows), capital, tradingPnl: equity - capital, twr: timeWeightedReturn(series, flows), series, flows };
+}
+
+// Resolves null when the dialog is cancelled: via the input's cancel event where
+// supported, else once focus comes back to the page without a file chosen.
+function pickFile(accept: string): Promise<File | null> {
+  return new Promise(resolve => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.onchange = () => resolve(input.files?.[0] ?? null);
+    input.addEventListener("cancel", () => resolve(null));
+    // change fires after focus returns, so give it a moment before giving up
+    window.addEventListener("focus", () => setTimeout(() => { if (!input.files?.length) resolve(null); }, 500), { once: true });
+    input.click();
+  });
+}
+
+function downloadFile(filename: string, content: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+function saveUndo(key: string, tl: Pick<Timeline, "past" | "future">) {
+  try { localStorage.setItem(key, JSON.stringify({ version: SCHEMA_VERSION, past: tl.past, future: tl.future })); } catch { /* quota: undo just won't survive reload */ }
+}
+
+// Snapshots go through the same migrations as a backup; steps that still don't
+// validate are dropped rather than restored into `present` on undo.
+function loadUndo(key: string): Pick<Timeline, "past" | "future"> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? "null");
+    if (!parsed || !Array.isArray(parsed.past) || !Array.isArray(parsed.future)) return { past: [], future: [] };
+    // Stacks saved before the version was recorded: every migration leaves data that already has its field alone
+    const version = Number.isInteger(parsed.version) ? parsed.version : 1;
+    const upgrade = (steps: unknown[]): UndoStep[] => steps.flatMap(u => {
+      if (!isObj(u) || typeof u.label !== "string" || !isObj(u.state)) return [];
+      const result = upgradeBackup({ version, state: { ...u.state, history: [] } }); // snapshots leave history out
+      return result.ok ? [{ label: u.label, state: snapshot(result.state) }] : [];
+    });
+    return { past: upgrade(parsed.past), future: upgrade(parsed.future) };
+  } catch {
+    return { past: [], future: [] };
+  }
+}
+
+function snapshot(s: AppState): Snapshot {
+  const rest = { ...s };
+  delete rest.history;
+  delete rest.usdRate;
+  delete rest.usdRates;
+  return rest;
+}
+
+function carryForward(s: AppState): Pick<AppState, "history" | "usdRate" | "usdRates"> {
+  return { history: s.history, usdRate: s.usdRate, usdRates: s.usdRates };
+}
+
+function undoTimeline(tl: Timeline): Timeline {
+  const step = tl.past[tl.past.length - 1]; if (!step) return tl;
+  return {
+    present: { ...step.state, ...carryForward(tl.present) },
+    past: tl.past.slice(0, -1),
+    future: [{ label: step.label, state: snapshot(tl.present) }, ...tl.future],
+  };
+}
+
+function redoTimeline(tl: Timeline): Timeline {
+  const step = tl.future[0]; if (!step) return tl;
+  return {
+    present: { ...step.state, ...carryForward(tl.present) },
+    past: [...tl.past, { label: step.label, state: snapshot(tl.present) }],
+    future: tl.future.slice(1),
+  };
+}
+
 function fmtSOL(n: number) { return `${n.toFixed(4)} SOL`; }
 function fmtNum(n: number) { return new Intl.NumberFormat(undefined, { maximumFractionDigits: 6 }).format(n); }
+function fmtPrice(n: number) { return new Intl.NumberFormat("en", { maximumSignificantDigits: 4 }).format(n); }
+function fmtMcap(n: number) { return new Intl.NumberFormat("en", { notation: "compact", maximumFractionDigits: 2 }).format(n).toLowerCase(); }
 function isFinitePos(n: any) { return typeof n === "number" && isFinite(n) && n > 0; }
 
+// Solana addresses are 32 bytes in base58: 32-44 chars, no 0, O, I or l
+function isMintAddress(v: string) { return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(v); }
+
+function linkTemplateError(url: unknown): string | null {
+  if (typeof url !== "string" || !url.includes("{mint}")) return "must contain {mint}";
+  try {
+    const { protocol } = new URL(url.replace(/\{mint\}/g, "x"));
+    return protocol === "https:" || protocol === "http:" ? null : "must be an http(s) URL";
+  } catch {
+    return "is not a valid URL";
+  }
+}
+
+function tokenUrl(template: string, mint: string) { return template.replace(/\{mint\}/g, encodeURIComponent(mint)); }
+
+// Keep the lowest-equity point and the last point of every `bucketMs` window,
+// so downsampling never hides a drawdown trough.
+function downsampleHistory(points: HistoryPoint[], bucketMs: number): HistoryPoint[] {
+  const out: HistoryPoint[] = [];
+  let i = 0;
+  while (i < points.length) {
+    const bucket = Math.floor(points[i].t / bucketMs);
+    let j = i, low = i;
+    while (j < points.length && Math.floor(points[j].t / bucketMs) === bucket) {
+      if (points[j].balance + points[j].openValue < points[low].balance + points[low].openValue) low = j;
+      j++;
+    }
+    if (low !== j - 1) out.push(points[low]);
+    out.push(points[j - 1]);
+    i = j;
+  }
+  return out;
+}
+
+// Apply the retention policy. Buckets double in size until the series fits
+// maxPoints; if the raw window alone is too long, its oldest points are dropped.
+function compactHistory(history: HistoryPoint[], policy: RetentionSettings, now = Date.now()): HistoryPoint[] {
+  const cutoff = now - policy.rawHours * 3_600_000;
+  const split = history.findIndex(p => p.t >= cutoff);
+  const old = split === -1 ? history : history.slice(0, split);
+  const recent = split === -1 ? [] : history.slice(split);
+  let bucketMs = policy.bucketMinutes * 60_000;
+  let out = [...downsampleHistory(old, bucketMs), ...recent];
+  while (out.length > policy.maxPoints && old.length > 1 && bucketMs < 366 * 86_400_000) {
+    bucketMs *= 2;
+    out = [...downsampleHistory(old, bucketMs), ...recent];
+  }
+  if (out.length > policy.maxPoints) out = out.slice(-policy.maxPoints);
+  return out.length === history.length ? history : out;
+}
+
+// ────────────────────────────────────────────────────────────────────────────────
+// Ledger
+// ────────────────────────────────────────────────────────────────────────────────
+
+type EntryAggregates = Pick<Entry,
+  "entryMarketCap" | "solInvested" | "status" | "cumulativeBuySOL" | "cumulativeSellAmount" |
+  "cumulativeSellReturnedSOL" | "realizedPnl" | "cumulativeFeesSOL" | "sellMarketCap" | "solReturned" | "pnl" | "pnlPercent" | "soldAt">;
+
+// Replay the fill log into the running aggregates. Fees are realized as they
+// are paid. A sell that leaves nothing open closes the position.
+// With lots, a sell's `sol` is the basis of the lots it closed (see closeLots)
+// and the entry mcap is the one that values the remaining tokens exactly.
+function summarizeFills(fills: Fill[], method: CostMethod = "average"): EntryAggregates {
+  let avg = 0, invested = 0, buys = 0, sold = 0, returned = 0, realized = 0, fees = 0;
+  let tokens = 0; // SOL / mcap, so value = tokens × mcap
+  let lastSell: Fill | undefined;
+  for (const f of fills) {
+    fees += f.fee;
+    if (f.side === "buy") {
+      avg = invested + f.sol > 0 ? (avg * invested + f.marketCap * f.sol) / (invested + f.sol) : f.marketCap;
+      invested += f.sol;
+      tokens += f.sol / f.marketCap;
+      buys += f.sol;
+      realized -= f.fee;
+    } else if (f.side === "sell") {
+      invested -= f.sol;
+      tokens -= f.solReturned / f.marketCap;
+      sold += f.sol;
+      returned += f.solReturned - f.fee;
+      realized += f.solReturned - f.fee - f.sol;
+      lastSell = f;
+    } else {
+      avg = f.marketCap;
+      invested = f.sol;
+      tokens = f.sol / f.marketCap;
+    }
+    if (method !== "average" && f.side !== "adjust" && tokens > 1e-12 && invested > 1e-9) avg = invested / tokens;
+  }
+  const agg: EntryAggregates = {
+    entryMarketCap: avg,
+    solInvested: Math.max(0, invested),
+    status: "open",
+    cumulativeBuySOL: buys,
+    cumulativeSellAmount: sold,
+    cumulativeSellReturnedSOL: returned,
+    realizedPnl: realized,
+    cumulativeFeesSOL: fees,
+    sellMarketCap: lastSell?.marketCap,
+  };
+  if (lastSell && fills[fills.length - 1] === lastSell && invested <= 0.0000001) {
+    return {
+      ...agg,
+      status: "sold",
+      solInvested: 0,
+      solReturned: returned,
+      pnl: realized,
+      pnlPercent: buys > 0 ? (realized / buys) * 100 : 0,
+      soldAt: new Date(lastSell.t).toISOString(),
+    };
+  }
+  return agg;
+}
+
+// One buy (or the position an adjust reset to) and what has been sold out of it
+type Lot = {
+  t: number;
+  marketCap: number; // fill mcap of the buy: the lot's cost per token
+  boughtSOL: number;
+  openSOL: number; // basis still held
+  returnedSOL: number; // proceeds of the parts sold, after their share of sell fees
+  realized: number; // returnedSOL − basis sold − buy fee
+  closedAt?: number;
+  adjusted?: boolean;
+};
+
+type LotClose = { lot: number; sol: number; returned: number; pnl: number };
+
+// Sell `tokens` out of the open lots in method order. Proceeds and the sell fee
+// are shared by token count; `basis` is the fill's `sol`.
+function closeLots(lots: Lot[], method: LotMethod, tokens: number, gross: number, fee: number, t: number): { lots: Lot[]; closes: LotClose[]; basis: number } {
+  const next = lots.map(l => ({ ...l }));
+  const order = next.map((_, i) => i).filter(i => next[i].openSOL > 1e-12);
+  if (method === "lifo") order.reverse();
+  const closes: LotClose[] = [];
+  let left = tokens;
+  for (const i of order) {
+    if (left <= 1e-15) break;
+    const lot = next[i];
+    const held = lot.openSOL / lot.marketCap;
+    const take = Math.min(held, left);
+    const share = tokens > 0 ? take / tokens : 0;
+    const sol = take >= held - 1e-15 ? lot.openSOL : take * lot.marketCap;
+    const returned = (gross - fee) * share;
+    lot.openSOL -= sol;
+    lot.returnedSOL += returned;
+    lot.realized += returned - sol;
+    if (lot.openSOL <= 1e-12) { lot.openSOL = 0; lot.closedAt = t; }
+    closes.push({ lot: i, sol, returned, pnl: returned - sol });
+    left -= take;
+  }
+  return { lots: next, closes, basis: closes.reduce((sum, c) => sum + c.sol, 0) };
+}
+
+function replayLots(fills: Fill[], method: LotMethod): Lot[] {
+  let lots: Lot[] = [];
+  for (const f of fills) {
+    if (f.side === "buy") {
+      lots.push({ t: f.t, marketCap: f.marketCap, boughtSOL: f.sol, openSOL: f.sol, returnedSOL: 0, realized: -f.fee });
+    } else if (f.side === "sell") {
+      lots = closeLots(lots, method, f.solReturned / f.marketCap, f.solReturned, f.fee, f.t).lots;
+    } else {
+      // A manual edit replaces whatever is open with one lot at the new avg / size
+      lots = lots.map(l => l.openSOL > 0 ? { ...l, openSOL: 0, closedAt: f.t } : l);
+      if (f.sol > 0) lots.push({ t: f.t, marketCap: f.marketCap, boughtSOL: f.sol, openSOL: f.sol, returnedSOL: 0, realized: 0, adjusted: true });
+    }
+  }
+  return lots;
+}
+
+// Win rate (classic: per closed trade)
+function computeWinStats(soldEntries: Entry[]) {
+  const closed = soldEntries.length;
+  const wins = soldEntries.filter(e => (e.pnl ?? 0) > 0).length;
+  const losses = closed - wins;
+  const winRate = closed > 0 ? (wins / closed) * 100 : 0;
+  return { closed, wins, losses, winRate };
+}
+
+function computeAvgReturns(soldEntries: Entry[]) {
+  if (soldEntries.length === 0) return { avgPct: 0, avgAbs: 0 };
+  const pctList = soldEntries.map(e => e.pnlPercent ?? 0);
+  const absList = soldEntries.map(e => e.pnl ?? 0);
+  const avgPct = pctList.reduce((a, b) => a + b, 0) / pctList.length;
+  const avgAbs = absList.reduce((a, b) => a + b, 0) / absList.length;
+  return { avgPct, avgAbs };
+}
+
+const UNASSIGNED_STRATEGY = "Unassigned";
+
+function isTagList(v: unknown): v is string[] { return Array.isArray(v) && v.every(t => typeof t === "string" && t.trim() !== ""); }
+
+// "KOL, #dip  kol" → ["kol", "dip"]
+function parseTags(text: string): string[] {
+  return [...new Set(text.split(/[,\s]+/).map(t => t.replace(/^#/, "").trim().toLowerCase()).filter(Boolean))];
+}
+
+// Distinct strategies / tags in use, most used first
+function usedLabels(entries: Entry[], pick: (e: Entry) => string[]): string[] {
+  const count = new Map<string, number>();
+  for (const e of entries) for (const k of pick(e)) count.set(k, (count.get(k) ?? 0) + 1);
+  return [...count].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([k]) => k);
+}
+
+const entryStrategy = (e: Entry) => [e.strategy];
+const entryTags = (e: Entry) => e.tags ?? [];
+
+type GroupStats = {
+  label: string;
+  entries: number;
+  open: number;
+  winStats: ReturnType<typeof computeWinStats>;
+  avgReturns: ReturnType<typeof computeAvgReturns>;
+  realized: number; // closed P/L + partial sells on open positions
+};
+
+// Win rate, average return and realized P/L per strategy or tag. An entry
+// with several tags counts toward each of them.
+function groupStats(entries: Entry[], pick: (e: Entry) => string[]): GroupStats[] {
+  const groups = new Map<string, Entry[]>();
+  for (const e of entries) for (const k of pick(e)) groups.set(k, [...(groups.get(k) ?? []), e]);
+  return [...groups].map(([label, list]) => {
+    const sold = list.filter(e => e.status === "sold");
+    return {
+      label,
+      entries: list.length,
+      open: list.length - sold.length,
+      winStats: computeWinStats(sold),
+      avgReturns: computeAvgReturns(sold),
+      realized: list.reduce((sum, e) => sum + (e.status === "sold" ? e.pnl ?? 0 : e.realizedPnl ?? 0), 0),
+    };
+  }).sort((a, b) => b.realized - a.realized);
+}
+
+// Maximum favorable / adverse excursion against the average entry, sized on
+// the SOL that went in (open size while open, total buys once closed).
+// Left on table = selling everything at the peak (before fees) minus what the trade made.
+function excursion(e: Entry) {
+  if (e.peakMarketCap === undefined || e.troughMarketCap === undefined || !(e.entryMarketCap > 0)) return null;
+  const basis = e.status === "open" ? e.solInvested : e.cumulativeBuySOL ?? 0;
+  const mfePct = (e.peakMarketCap / e.entryMarketCap - 1) * 100;
+  const maePct = (e.troughMarketCap / e.entryMarketCap - 1) * 100;
+  const leftSOL = e.status === "sold" ? Math.max(0, basis * e.peakMarketCap / e.entryMarketCap - (basis + (e.pnl ?? 0))) : undefined;
+  return { mfePct, maePct, mfeSOL: basis * mfePct / 100, maeSOL: basis * maePct / 100, leftSOL };
+}
+
+// Across closed trades: do we exit too early (low capture of MFE, lots left on
+// the table) or hold losers too long (losers' MAE far below where they closed)?
+function computeExcursionStats(soldEntries: Entry[]) {
+  const rows = soldEntries.flatMap(e => { const x = excursion(e); return x ? [{ e, x }] : []; });
+  const avg = (xs: number[]) => xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+  const losers = rows.filter(r => (r.e.pnl ?? 0) <= 0);
+  const favorable = rows.filter(r => r.x.mfePct > 0);
+  return {
+    trades: rows.length,
+    avgMfePct: avg(rows.map(r => r.x.mfePct)),
+    avgMaePct: avg(rows.map(r => r.x.maePct)),
+    leftOnTableSOL: rows.reduce((sum, r) => sum + (r.x.leftSOL ?? 0), 0),
+    captureRatio: avg(favorable.map(r => (r.e.pnlPercent ?? 0) / r.x.mfePct)), // realized % / MFE %
+    loserMaePct: avg(losers.map(r => r.x.maePct)),
+    loserClosePct: avg(losers.map(r => r.e.pnlPercent ?? 0)),
+  };
+}
+
+function tradeFee(amountSOL: number, fees: FeeSettings) {
+  return fees.fixedSOL + (amountSOL * fees.swapPct) / 100;
+}
+
+// Blank override fields fall back to the portfolio defaults; null = invalid input
+function resolveFees(defaults: FeeSettings, o: FeeOverride): FeeSettings | null {
+  const fixedSOL = o.feeFixed.trim() === "" ? defaults.fixedSOL : Number(o.feeFixed);
+  const swapPct = o.feePct.trim() === "" ? defaults.swapPct : Number(o.feePct);
+  if (!isFinite(fixedSOL) || fixedSOL < 0 || !isFinite(swapPct) || swapPct < 0 || swapPct >= 100) return null;
+  return { fixedSOL, swapPct };
+}
+
+function fmtFees(f: FeeSettings) { return `${fmtNum(f.fixedSOL)} SOL + ${fmtNum(f.swapPct)}%`; }
+
+// ── Constant-product (x·y = k) price impact ──
+// A paper trade never touches the real pool, so only the fill moves; the
+// market cap the user sees stays as quoted.
+
+type PoolInfo = Pick<Entry, "liquiditySOL" | "liquidityMarketCap">;
+
+// SOL reserve at `mcap`: in an x·y=k pool it scales with √price
+function poolReserveSOL(pool: PoolInfo | undefined, mcap: number): number | null {
+  if (!pool || !isFinitePos(pool.liquiditySOL) || !isFinitePos(pool.liquidityMarketCap)) return null;
+  return pool.liquiditySOL! * Math.sqrt(mcap / pool.liquidityMarketCap!);
+}
+
+// Average mcap actually paid/received when swapping `valueSOL` in or out at quoted `mcap`
+function ammFillMcap(side: "buy" | "sell", mcap: number, valueSOL: number, reserveSOL: number | null) {
+  if (!reserveSOL) return mcap;
+  return side === "buy" ? mcap * (reserveSOL + valueSOL) / reserveSOL : mcap * reserveSOL / (reserveSOL + valueSOL);
+}
+
+function buyQuote(pool: PoolInfo | undefined, mcap: number, amountSOL: number, fees: FeeSettings) {
+  const fillMcap = ammFillMcap("buy", mcap, amountSOL, poolReserveSOL(pool, mcap));
+  const fee = tradeFee(amountSOL, fees);
+  return { fillMcap, slippagePct: (fillMcap / mcap - 1) * 100, fee, cost: amountSOL + fee };
+}
+
+// `baseSOL` is the share of solInvested being sold, as in partialSell. With
+// lots, `basis` (the fill's `sol`) is what the closed lots cost instead.
+function sellQuote(e: Entry, mcap: number, baseSOL: number, fees: FeeSettings) {
+  const value = baseSOL * (mcap / e.entryMarketCap);
+  const fillMcap = ammFillMcap("sell", mcap, value, poolReserveSOL(e, mcap));
+  const gross = baseSOL * (fillMcap / e.entryMarketCap);
+  const fee = tradeFee(gross, fees);
+  const lots = e.costMethod ? closeLots(replayLots(e.fills, e.costMethod), e.costMethod, baseSOL / e.entryMarketCap, gross, fee, Date.now()) : null;
+  return { fillMcap, slippagePct: (fillMcap / mcap - 1) * 100, gross, fee, net: gross - fee, basis: lots ? lots.basis : baseSOL, closes: lots?.closes ?? [] };
+}
+
+const COST_METHOD_LABELS: Record<CostMethod, string> = { average: "Average cost", fifo: "FIFO lots", lifo: "LIFO lots" };
+
+function ruleLabel(r: ExitRule) {
+  return r.kind === "tp" ? `TP ${fmtNum(r.multiple)}x` : `SL ${((r.multiple - 1) * 100).toFixed(0)}%`;
+}
+
+// Fire every armed rule the entry's current mcap has crossed. Each execution
+// goes through sellQuote with the portfolio fees, exactly like a manual sell.
+// `balance` is the wallet before these sells: a rule whose fee is more than its
+// proceeds and the balance can cover stays armed instead of overdrawing it.
+function applyExitRules(e: Entry, fees: FeeSettings, balance: number, usdRate?: number): { entry: Entry; proceeds: number } {
+  if (e.status !== "open" || !e.exitRules?.some(r => !r.firedAt)) return { entry: e, proceeds: 0 };
+  const mcap = e.currentMarketCap ?? e.entryMarketCap;
+  // Stops first, then take-profits from the lowest level up, so a gap through
+  // "50% at 3x" and "rest at 5x" sells in the intended order
+  const armed = e.exitRules
+    .filter(r => !r.firedAt)
+    .sort((a, b) => a.kind === b.kind ? a.multiple - b.multiple : a.kind === "sl" ? -1 : 1);
+  let entry = e;
+  let proceeds = 0;
+  for (const rule of armed) {
+    if (entry.status !== "open") break;
+    const level = entry.entryMarketCap * rule.multiple;
+    if (rule.kind === "tp" ? mcap < level : mcap > level) continue;
+    const base = rule.sellPct >= 100 ? entry.solInvested : (entry.solInvested * rule.sellPct) / 100;
+    const q = sellQuote(entry, mcap, base, fees);
+    if (balance + proceeds + q.net < 0) continue;
+    const t = Date.now();
+    entry = appendFill(entry, {
+      side: "sell", marketCap: q.fillMcap, sol: q.basis, solReturned: q.gross, fee: q.fee, t, trigger: rule.id, ...(usdRate && { usd: usdRate }),
+      ...(q.fillMcap !== mcap && { quotedMarketCap: mcap }),
+    });
+    entry = { ...entry, exitRules: entry.exitRules!.map(r => r.id === rule.id ? { ...r, firedAt: t } : r) };
+    proceeds += q.net;
+  }
+  return { entry, proceeds };
+}
+
+// Run exit rules for entries[idx] after anything moved its market cap
+function withExits(s: AppState, idx: number): AppState {
+  const { entry, proceeds } = applyExitRules(s.entries[idx], s.fees ?? DEFAULT_FEES, s.balance, s.usdRate);
+  if (entry === s.entries[idx]) return s;
+  const entries = [...s.entries]; entries[idx] = entry;
+  return { ...s, balance: s.balance + proceeds, entries };
+}
+
+function reservedSOL(s: AppState) {
+  return (s.orders ?? []).reduce((sum, o) => sum + (o.status === "pending" ? o.reserved : 0), 0);
+}
+
+function availableSOL(s: AppState) { return s.balance - reservedSOL(s); }
+
+type NewPosition = { name: string; mint?: string; ticker?: string; notes?: string; strategy: string; tags?: string[]; thesis?: string; supply?: number; entryMarketCap: number; solInvested: number; fees: FeeSettings; liquiditySOL?: number; order?: string };
+
+// Open a new entry; the caller has checked that the balance covers buyQuote().cost
+function openPosition(s: AppState, data: NewPosition): AppState {
+  const pool: PoolInfo = data.liquiditySOL ? { liquiditySOL: data.liquiditySOL, liquidityMarketCap: data.entryMarketCap } : {};
+  const q = buyQuote(pool, data.entryMarketCap, data.solInvested, data.fees);
+  const fills: Fill[] = [{
+    side: "buy", marketCap: q.fillMcap, sol: data.solInvested, solReturned: 0, fee: q.fee, t: Date.now(), ...usdStamp(s),
+    ...(q.fillMcap !== data.entryMarketCap && { quotedMarketCap: data.entryMarketCap }),
+    ...(data.order && { order: data.order }),
+  }];
+  const entry: Entry = {
+    id: String(s.nextId),
+    name: data.name.trim() || `Entry #${s.nextId}`,
+    ...(data.mint && { mint: data.mint }),
+    ...(data.ticker && { ticker: data.ticker }),
+    ...(data.notes && { notes: data.notes }),
+    strategy: data.strategy,
+    ...(data.tags?.length && { tags: data.tags }),
+    ...(data.thesis && { journal: { thesis: data.thesis } }),
+    ...(data.supply && { supply: data.supply }),
+    currentMarketCap: data.entryMarketCap,
+    ...pool,
+    marks: [{ t: fills[0].t, mcap: data.entryMarketCap }],
+    peakMarketCap: data.entryMarketCap,
+    troughMarketCap: data.entryMarketCap,
+    ...(s.costMethod && s.costMethod !== "average" && { costMethod: s.costMethod }),
+    fills,
+    ...summarizeFills(fills, s.costMethod),
+  };
+  return { ...s, balance: s.balance - q.cost, entries: [entry, ...s.entries], nextId: s.nextId + 1 };
+}
+
+// Fill pending limit buys on entries[idx] that its current mcap has reached.
+// The reserve already covers sol + fee, so a fill can't overdraw the balance.
+function fillLimitOrders(s: AppState, idx: number): AppState {
+  const e = s.entries[idx];
+  if (e.status !== "open" || !s.orders?.some(o => o.status === "pending" && o.entryId === e.id)) return s;
+  const mcap = e.currentMarketCap ?? e.entryMarketCap;
+  let entry = e;
+  let balance = s.balance;
+  const orders = s.orders.map(o => {
+    if (o.status !== "pending" || o.entryId !== e.id || mcap > o.limitMarketCap) return o;
+    const q = buyQuote(entry, mcap, o.sol, o.fees);
+    const t = Date.now();
+    entry = appendFill(entry, {
+      side: "buy", marketCap: q.fillMcap, sol: o.sol, solReturned: 0, fee: q.fee, t, order: o.id, ...usdStamp(s),
+      ...(q.fillMcap !== mcap && { quotedMarketCap: mcap }),
+    });
+    balance -= q.cost;
+    return { ...o, status: "filled" as const, closedAt: t };
+  });
+  if (entry === e) return s;
+  const entries = [...s.entries]; entries[idx] = entry;
+  return { ...s, balance, entries, orders };
+}
+
+// Orders on a position that has since closed can never fill; release their reserve
+function cancelOrphanOrders(s: AppState): AppState {
+  if (!s.orders?.some(o => o.status === "pending" && o.entryId)) return s;
+  const closed = new Set(s.entries.filter(e => e.status !== "open").map(e => e.id));
+  const t = Date.now();
+  let changed = false;
+  const orders = s.orders.map(o => {
+    if (o.status !== "pending" || !o.entryId || !closed.has(o.entryId)) return o;
+    changed = true;
+    return { ...o, status: "cancelled" as const, closedAt: t };
+  });
+  return changed ? { ...s, orders } : s;
+}
+
+// Everything that reacts to entries[idx] getting a new market cap: resting
+// limit buys fill first, then take-profit / stop-loss rules.
+function afterMarketMove(s: AppState, idx: number): AppState {
+  return cancelOrphanOrders(withExits(fillLimitOrders(s, idx), idx));
+}
+
+// Open size marked to the latest market cap
+function positionValue(e: Entry) {
+  const cur = (e.currentMarketCap ?? e.entryMarketCap);
+  const mult = cur > 0 ? cur / e.entryMarketCap : 1;
+  return e.solInvested * mult;
+}
+
+function appendFill(e: Entry, fill: Fill): Entry {
+  const fills = [...e.fills, fill];
+  return { ...e, fills, ...summarizeFills(fills, e.costMethod) };
+}
+
+// Record the mcap an entry was just marked at. Past MARKS_LIMIT every other mark
+// (recent ones too, but never the latest) is dropped, so long feed sessions keep
+// their shape at half the detail.
+function withMark(e: Entry, mcap: number, t = Date.now()): Entry {
+  let marks = [...(e.marks ?? []), { t, mcap }];
+  if (marks.length > MARKS_LIMIT) marks = marks.filter((_, i) => i % 2 === 0 || i === marks.length - 1);
+  return {
+    ...e,
+    currentMarketCap: mcap,
+    marks,
+    peakMarketCap: Math.max(e.peakMarketCap ?? mcap, mcap),
+    troughMarketCap: Math.min(e.troughMarketCap ?? mcap, mcap),
+  };
+}
+
+// Entries saved before the ledger existed only carry aggregates; rebuild the
+// shortest fill log that replays to the same numbers.
+function withLedger(e: Entry): Entry {
+  if (Array.isArray(e.fills)) return e;
+  const t = e.soldAt ? Date.parse(e.soldAt) : Date.now();
+  const bought = e.cumulativeBuySOL ?? e.solInvested;
+  const soldBase = e.cumulativeSellAmount ?? 0;
+  const fills: Fill[] = [{ side: "buy", marketCap: e.entryMarketCap, sol: bought, solReturned: 0, fee: 0, t }];
+  if (e.status === "sold" && Math.abs(bought - soldBase) > 1e-9) {
+    fills.push({ side: "adjust", marketCap: e.entryMarketCap, sol: soldBase, solReturned: 0, fee: 0, t });
+  }
+  if (soldBase > 0) {
+    fills.push({ side: "sell", marketCap: e.sellMarketCap ?? e.entryMarketCap, sol: soldBase, solReturned: e.cumulativeSellReturnedSOL ?? 0, fee: 0, t });
+  }
+  if (e.status === "open" && Math.abs(summarizeFills(fills).solInvested - e.solInvested) > 1e-9) {
+    fills.push({ side: "adjust", marketCap: e.entryMarketCap, sol: e.solInvested, solReturned: 0, fee: 0, t });
+  }
+  return { ...e, fills, ...summarizeFills(fills) };
+}
+
+// ────────────────────────────────────────────────────────────────────────────────
+// Backup, migrations & validation
+// ────────────────────────────────────────────────────────────────────────────────
+
+type Backup = { app: "sol-paper-trader"; version: number; exportedAt: string; state: AppState };
+type Raw = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version-n state to version n + 1. Append a step
+// whenever the persisted shape changes and bump SCHEMA_VERSION.
+const MIGRATIONS: Record<number, (s: Raw) => Raw> = {
+  // v1 → v2: equity graph series
+  1: s => ({ ...s, history: Array.isArray(s.history) ? s.history : [] }),
+  // v2 → v3: per-fill ledger behind every entry
+  2: s => ({ ...s, entries: Array.isArray(s.entries) ? s.entries.map(e => isObj(e) ? withLedger(e as Entry) : e) : s.entries }),
+  // v3 → v4: fees on every fill (everything before was fee-free)
+  3: s => ({
+    ...s,
+    entries: Array.isArray(s.entries)
+      ? s.entries.map(e => isObj(e) && Array.isArray(e.fills) ? { ...e, fills: e.fills.map(f => isObj(f) ? { fee: 0, ...f } : f) } : e)
+      : s.entries,
+  }),
+  // v4 → v5: per-entry mcap series, seeded from the fills we already have
+  4: s => ({
+    ...s,
+    entries: Array.isArray(s.entries)
+      ? s.entries.map(e => isObj(e) && Array.isArray(e.fills) && e.marks === undefined
+        ? { ...e, marks: e.fills.filter(f => isObj(f) && f.side !== "adjust").map(f => ({ t: f.t, mcap: f.quotedMarketCap ?? f.marketCap })) }
+        : e)
+      : s.entries,
+  }),
+  // v5 → v6: peak/trough while open, from the series and fills recorded so far
+  5: s => ({
+    ...s,
+    entries: Array.isArray(s.entries)
+      ? s.entries.map(e => {
+        if (!isObj(e) || !Array.isArray(e.fills) || e.peakMarketCap !== undefined) return e;
+        const seen = [
+          ...(Array.isArray(e.marks) ? e.marks.filter(isObj).map(m => m.mcap) : []),
+          ...e.fills.filter(f => isObj(f) && f.side !== "adjust").map(f => f.quotedMarketCap ?? f.marketCap),
+        ].filter(isFinitePos) as number[];
+        return seen.length ? { ...e, peakMarketCap: Math.max(...seen), troughMarketCap: Math.min(...seen) } : e;
+      })
+      : s.entries,
+  }),
+  // v6 → v7: cash-flow ledger. Earlier balance edits weren't recorded, so it starts empty.
+  6: s => ({ ...s, cashFlows: Array.isArray(s.cashFlows) ? s.cashFlows : [] }),
+  // v7 → v8: every entry has a strategy; older ones are filed under UNASSIGNED_STRATEGY
+  7: s => ({
+    ...s,
+    entries: Array.isArray(s.entries)
+      ? s.entries.map(e => isObj(e) && e.strategy === undefined ? { ...e, strategy: UNASSIGNED_STRATEGY } : e)
+      : s.entries,
+  }),
+  // v8 → v9: mints must be base58 addresses; anything else moves into the notes
+  8: s => ({
+    ...s,
+    entries: Array.isArray(s.entries)
+      ? s.entries.map(e => {
+        if (!isObj(e) || typeof e.mint !== "string" || isMintAddress(e.mint)) return e;
+        const { mint, ...rest } = e;
+        if (!mint || typeof e.notes !== "string" && e.notes !== undefined) return rest;
+        return { ...rest, notes: e.notes ? `${e.notes}\nMint: ${mint}` : `Mint: ${mint}` };
+      })
+      : s.entries,
+  }),
+};
+
+function isObj(v: unknown): v is Raw { return typeof v === "object" && v !== null && !Array.isArray(v); }
+
+function makeBackup(state: AppState): Backup {
+  return { app: "sol-paper-trader", version: SCHEMA_VERSION, exportedAt: new Date().toISOString(), state };
+}
+
+// Accepts a backup file, a stored envelope, or a bare pre-envelope state
+// (v1 without history, v2 with it), and returns it upgraded and validated.
+type ParseResult = { ok: true; state: AppState; fromVersion: number } | { ok: false; errors: string[] };
+
+function parseBackup(text: string): ParseResult {
+  let parsed: unknown;
+  try { parsed = JSON.parse(text); } catch (err) { return { ok: false, errors: [`Not valid JSON: ${(err as Error).message}`] }; }
+  return upgradeBackup(parsed);
+}
+
+function upgradeBackup(parsed: unknown): ParseResult {
+  if (!isObj(parsed)) return { ok: false, errors: ["Expected a JSON object at the top level."] };
+
+  let version: number;
+  let raw: unknown;
+  if ("version" in parsed || "state" in parsed) {
+    version = parsed.version as number;
+    raw = parsed.state;
+    if (!Number.isInteger(version) || version < 1) return { ok: false, errors: [`version: expected a positive integer, got ${JSON.stringify(parsed.version)}`] };
+    if (version > SCHEMA_VERSION) return { ok: false, errors: [`version: file is schema v${version}, this app only understands up to v${SCHEMA_VERSION}. Update the app first.`] };
+  } else {
+    version = Array.isArray(parsed.history) ? 2 : 1;
+    raw = parsed;
+  }
+  if (!isObj(raw)) return { ok: false, errors: ["state: expected an object."] };
+
+  let upgraded = raw;
+  for (let v = version; v < SCHEMA_VERSION; v++) upgraded = MIGRATIONS[v](upgraded);
+
+  const errors = validateState(upgraded);
+  if (errors.length) return { ok: false, errors };
+  const state = upgraded as unknown as AppState;
+  // Aggregates are derived data; trust the fills, not the stored totals
+  return { ok: true, fromVersion: version, state: { ...state, entries: state.entries.map(e => ({ ...e, ...summarizeFills(e.fills, e.costMethod) })) } };
+}
+
+function validateState(s: Raw): string[] {
+  const errors: string[] = [];
+  const show = (v: unknown) => v === undefined ? "nothing" : JSON.stringify(v);
+  const num = (path: string, v: unknown, opts: { optional?: boolean; min?: number; positive?: boolean } = {}) => {
+    if (v === undefined && opts.optional) return;
+    if (typeof v !== "number" || !isFinite(v)) errors.push(`${path}: expected a number, got ${show(v)}`);
+    else if (opts.positive && v <= 0) errors.push(`${path}: expected a positive number, got ${v}`);
+    else if (opts.min !== undefined && v < opts.min) errors.push(`${path}: expected ≥ ${opts.min}, got ${v}`);
+  };
+
+  if (s.startingBalance !== null) num("startingBalance", s.startingBalance, { min: 0 });
+  num("startedAt", s.startedAt, { optional: true });
+  if (s.fees !== undefined) {
+    if (!isObj(s.fees)) errors.push(`fees: expected an object, got ${show(s.fees)}`);
+    else {
+      num("fees.fixedSOL", s.fees.fixedSOL, { min: 0 });
+      num("fees.swapPct", s.fees.swapPct, { min: 0 });
+    }
+  }
+  if (s.feed !== undefined) {
+    if (!isObj(s.feed)) errors.push(`feed: expected an object, got ${show(s.feed)}`);
+    else {
+      if (!["off", "mock", "replay"].includes(s.feed.provider as string)) errors.push(`feed.provider: expected "off", "mock" or "replay", got ${show(s.feed.provider)}`);
+      num("feed.intervalSec", s.feed.intervalSec, { positive: true });
+      num("feed.volatilityPct", s.feed.volatilityPct, { optional: true, min: 0 });
+      num("feed.failPct", s.feed.failPct, { optional: true, min: 0 });
+      if (s.feed.replay !== undefined) {
+        const err = isObj(s.feed.replay) ? replaySeriesError(s.feed.replay) : "expected an object of mint -> mcap list";
+        if (err) errors.push(`feed.replay: ${err}`);
+      }
+    }
+  }
+  if (s.retention !== undefined) {
+    if (!isObj(s.retention)) errors.push(`retention: expected an object, got ${show(s.retention)}`);
+    else {
+      num("retention.rawHours", s.retention.rawHours, { min: 0 });
+      num("retention.bucketMinutes", s.retention.bucketMinutes, { positive: true });
+      num("retention.maxPoints", s.retention.maxPoints, { min: 10 });
+    }
+  }
+  num("usdRate", s.usdRate, { optional: true, positive: true });
+  if (s.usd !== undefined) {
+    if (!isObj(s.usd)) errors.push(`usd: expected an object, got ${show(s.usd)}`);
+    else {
+      if (!["manual", "mock", "file"].includes(s.usd.source as string)) errors.push(`usd.source: expected "manual", "mock" or "file", got ${show(s.usd.source)}`);
+      num("usd.intervalSec", s.usd.intervalSec, { positive: true });
+      num("usd.volatilityPct", s.usd.volatilityPct, { optional: true, min: 0 });
+      if (s.usd.series !== undefined) {
+        const err = Array.isArray(s.usd.series) ? rateSeriesError(s.usd.series) : "expected a list of { t, rate }";
+        if (err) errors.push(`usd.series: ${err}`);
+      }
+    }
+  }
+  if (s.usdRates !== undefined) {
+    const err = Array.isArray(s.usdRates) ? rateSeriesError(s.usdRates) : "expected a list of { t, rate }";
+    if (err) errors.push(`usdRates: ${err}`);
+  }
+  if (s.costMethod !== undefined && !["average", "fifo", "lifo"].includes(s.costMethod as string)) errors.push(`costMethod: expected "average", "fifo" or "lifo", got ${show(s.costMethod)}`);
+  if (s.cashFlows !== undefined) {
+    if (!Array.isArray(s.cashFlows)) errors.push(`cashFlows: expected an array, got ${show(s.cashFlows)}`);
+    else s.cashFlows.forEach((f: unknown, i) => {
+      const p = `cashFlows[${i}]`;
+      if (!isObj(f)) { errors.push(`${p}: expected an object`); return; }
+      if (typeof f.id !== "string" || !f.id) errors.push(`${p}.id: expected a non-empty string, got ${show(f.id)}`);
+      num(`${p}.t`, f.t);
+      num(`${p}.amount`, f.amount);
+      num(`${p}.usd`, f.usd, { optional: true, positive: true });
+      if (f.note !== undefined && typeof f.note !== "string") errors.push(`${p}.note: expected a string, got ${show(f.note)}`);
+    });
+  }
+  num("balance", s.balance, { min: 0 });
+  if (!Number.isInteger(s.nextId) || (s.nextId as number) < 1) errors.push(`nextId: expected a positive integer, got ${show(s.nextId)}`);
+
+  if (!Array.isArray(s.entries)) errors.push(`entries: expected an array, got ${show(s.entries)}`);
+  else {
+    const ids = new Set<string>();
+    s.entries.forEach((e: unknown, i) => {
+      const p = `entries[${i}]`;
+      if (!isObj(e)) { errors.push(`${p}: expected an object`); return; }
+      if (typeof e.id !== "string" || !e.id) errors.push(`${p}.id: expected a non-empty string, got ${show(e.id)}`);
+      else if (ids.has(e.id)) errors.push(`${p}.id: duplicate id "${e.id}"`);
+      else ids.add(e.id);
+      if (typeof e.name !== "string") errors.push(`${p}.name: expected a string, got ${show(e.name)}`);
+      if (e.mint !== undefined && (typeof e.mint !== "string" || !isMintAddress(e.mint))) errors.push(`${p}.mint: expected a base58 mint address, got ${show(e.mint)}`);
+      if (e.ticker !== undefined && typeof e.ticker !== "string") errors.push(`${p}.ticker: expected a string, got ${show(e.ticker)}`);
+      if (e.notes !== undefined && typeof e.notes !== "string") errors.push(`${p}.notes: expected a string, got ${show(e.notes)}`);
+      if (typeof e.strategy !== "string" || !e.strategy.trim()) errors.push(`${p}.strategy: expected a non-empty string, got ${show(e.strategy)}`);
+      if (e.tags !== undefined && !isTagList(e.tags)) errors.push(`${p}.tags: expected a list of non-empty strings, got ${show(e.tags)}`);
+      if (e.journal !== undefined) {
+        const j = e.journal;
+        if (!isObj(j)) errors.push(`${p}.journal: expected an object, got ${show(j)}`);
+        else {
+          for (const k of ["thesis", "review"]) if (j[k] !== undefined && typeof j[k] !== "string") errors.push(`${p}.journal.${k}: expected a string, got ${show(j[k])}`);
+          if (j.rating !== undefined && !(Number.isInteger(j.rating) && (j.rating as number) >= 1 && (j.rating as number) <= 5)) errors.push(`${p}.journal.rating: expected 1 to 5, got ${show(j.rating)}`);
+          if (j.shots !== undefined) {
+            if (!Array.isArray(j.shots)) errors.push(`${p}.journal.shots: expected an array, got ${show(j.shots)}`);
+            else j.shots.forEach((x: unknown, k) => {
+              const sp = `${p}.journal.shots[${k}]`;
+              if (!isObj(x)) { errors.push(`${sp}: expected an object`); return; }
+              if (typeof x.id !== "string" || !x.id) errors.push(`${sp}.id: expected a non-empty string, got ${show(x.id)}`);
+              if (typeof x.name !== "string") errors.push(`${sp}.name: expected a string, got ${show(x.name)}`);
+              if (typeof x.type !== "string") errors.push(`${sp}.type: expected a string, got ${show(x.type)}`);
+              num(`${sp}.bytes`, x.bytes, { min: 0 });
+              num(`${sp}.t`, x.t);
+            });
+          }
+        }
+      }
+      if (e.costMethod !== undefined && e.costMethod !== "fifo" && e.costMethod !== "lifo") errors.push(`${p}.costMethod: expected "fifo" or "lifo", got ${show(e.costMethod)}`);
+      if (e.status !== "open" && e.status !== "sold") errors.push(`${p}.status: expected "open" or "sold", got ${show(e.status)}`);
+      num(`${p}.supply`, e.supply, { optional: true, positive: true });
+      num(`${p}.currentMarketCap`, e.currentMarketCap, { optional: true, positive: true });
+      num(`${p}.liquiditySOL`, e.liquiditySOL, { optional: true, positive: true });
+      num(`${p}.liquidityMarketCap`, e.liquidityMarketCap, { optional: true, positive: true });
+      num(`${p}.peakMarketCap`, e.peakMarketCap, { optional: true, positive: true });
+      num(`${p}.troughMarketCap`, e.troughMarketCap, { optional: true, positive: true });
+      num(`${p}.entryMarketCap`, e.entryMarketCap, { min: 0 });
+      num(`${p}.solInvested`, e.solInvested, { min: 0 });
+      for (const k of ["cumulativeBuySOL", "cumulativeSellAmount", "cumulativeSellReturnedSOL", "realizedPnl", "cumulativeFeesSOL", "sellMarketCap", "solReturned", "pnl", "pnlPercent"]) {
+        num(`${p}.${k}`, e[k], { optional: true });
+      }
+      if (e.soldAt !== undefined && (typeof e.soldAt !== "string" || isNaN(Date.parse(e.soldAt)))) errors.push(`${p}.soldAt: expected an ISO date string, got ${show(e.soldAt)}`);
+      if (e.exitRules !== undefined) {
+        if (!Array.isArray(e.exitRules)) errors.push(`${p}.exitRules: expected an array, got ${show(e.exitRules)}`);
+        else e.exitRules.forEach((r: unknown, j) => {
+          const rp = `${p}.exitRules[${j}]`;
+          if (!isObj(r)) { errors.push(`${rp}: expected an object`); return; }
+          if (typeof r.id !== "string" || !r.id) errors.push(`${rp}.id: expected a non-empty string, got ${show(r.id)}`);
+          if (r.kind !== "tp" && r.kind !== "sl") errors.push(`${rp}.kind: expected "tp" or "sl", got ${show(r.kind)}`);
+          num(`${rp}.multiple`, r.multiple, { positive: true });
+          num(`${rp}.sellPct`, r.sellPct, { positive: true });
+          num(`${rp}.firedAt`, r.firedAt, { optional: true });
+        });
+      }
+      if (e.marks !== undefined) {
+        if (!Array.isArray(e.marks)) errors.push(`${p}.marks: expected an array, got ${show(e.marks)}`);
+        else e.marks.forEach((m: unknown, j) => {
+          if (!isObj(m)) { errors.push(`${p}.marks[${j}]: expected an object`); return; }
+          num(`${p}.marks[${j}].t`, m.t);
+          num(`${p}.marks[${j}].mcap`, m.mcap, { positive: true });
+        });
+      }
+      if (!Array.isArray(e.fills) || e.fills.length === 0) { errors.push(`${p}.fills: expected a non-empty array, got ${show(e.fills)}`); return; }
+      e.fills.forEach((f: unknown, j) => {
+        const fp = `${p}.fills[${j}]`;
+        if (!isObj(f)) { errors.push(`${fp}: expected an object`); return; }
+        if (f.side !== "buy" && f.side !== "sell" && f.side !== "adjust") errors.push(`${fp}.side: expected "buy", "sell" or "adjust", got ${show(f.side)}`);
+        num(`${fp}.marketCap`, f.marketCap, { positive: true });
+        num(`${fp}.sol`, f.sol, { min: 0 });
+        num(`${fp}.solReturned`, f.solReturned, { min: 0 });
+        num(`${fp}.fee`, f.fee, { min: 0 });
+        num(`${fp}.quotedMarketCap`, f.quotedMarketCap, { optional: true, positive: true });
+        if (f.trigger !== undefined && typeof f.trigger !== "string") errors.push(`${fp}.trigger: expected a rule id string, got ${show(f.trigger)}`);
+        if (f.order !== undefined && typeof f.order !== "string") errors.push(`${fp}.order: expected an order id string, got ${show(f.order)}`);
+        num(`${fp}.usd`, f.usd, { optional: true, positive: true });
+        if (f.note !== undefined && typeof f.note !== "string") errors.push(`${fp}.note: expected a string, got ${show(f.note)}`);
+        num(`${fp}.t`, f.t);
+      });
+    });
+  }
+
+  if (s.orders !== undefined) {
+    if (!Array.isArray(s.orders)) errors.push(`orders: expected an array, got ${show(s.orders)}`);
+    else s.orders.forEach((o: unknown, i) => {
+      const p = `orders[${i}]`;
+      if (!isObj(o)) { errors.push(`${p}: expected an object`); return; }
+      if (typeof o.id !== "string" || !o.id) errors.push(`${p}.id: expected a non-empty string, got ${show(o.id)}`);
+      if (o.entryId !== undefined && typeof o.entryId !== "string") errors.push(`${p}.entryId: expected a string, got ${show(o.entryId)}`);
+      if (typeof o.name !== "string") errors.push(`${p}.name: expected a string, got ${show(o.name)}`);
+      if (o.status !== "pending" && o.status !== "filled" && o.status !== "cancelled") errors.push(`${p}.status: expected "pending", "filled" or "cancelled", got ${show(o.status)}`);
+      num(`${p}.limitMarketCap`, o.limitMarketCap, { positive: true });
+      num(`${p}.sol`, o.sol, { positive: true });
+      num(`${p}.reserved`, o.reserved, { min: 0 });
+      num(`${p}.createdAt`, o.createdAt);
+      num(`${p}.closedAt`, o.closedAt, { optional: true });
+      num(`${p}.lastMarketCap`, o.lastMarketCap, { optional: true, positive: true });
+      if (o.strategy !== undefined && typeof o.strategy !== "string") errors.push(`${p}.strategy: expected a string, got ${show(o.strategy)}`);
+      if (o.tags !== undefined && !isTagList(o.tags)) errors.push(`${p}.tags: expected a list of non-empty strings, got ${show(o.tags)}`);
+      if (!isObj(o.fees)) errors.push(`${p}.fees: expected an object, got ${show(o.fees)}`);
+      else { num(`${p}.fees.fixedSOL`, o.fees.fixedSOL, { min: 0 }); num(`${p}.fees.swapPct`, o.fees.swapPct, { min: 0 }); }
+    });
+  }
+
+  if (!Array.isArray(s.history)) errors.push(`history: expected an array, got ${show(s.history)}`);
+  else s.history.forEach((h: unknown, i) => {
+    const p = `history[${i}]`;
+    if (!isObj(h)) { errors.push(`${p}: expected an object`); return; }
+    num(`${p}.t`, h.t);
+    num(`${p}.balance`, h.balance);
+    num(`${p}.openValue`, h.openValue);
+  });
+
+  return errors;
+}
+
+// ────────────────────────────────────────────────────────────────────────────────
+// CSV export
+// ────────────────────────────────────────────────────────────────────────────────
+
+type CsvCell = string | number | null | undefined;
+
+function csvCell(v: CsvCell): string {
+  if (v === null || v === undefined) return "";
+  if (typeof v === "number") return isFinite(v) ? String(v) : "";
+  // Leading = + - @ would be evaluated as a formula by spreadsheet apps
+  const text = /^[=+\-@]/.test(v) ? `'${v}` : v;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(headers: string[], rows: CsvCell[][]): string {
+  return [headers, ...rows].map(r => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+function iso(t: number | undefined) { return t === undefined ? "" : new Date(t).toISOString(); }
+
+// USD columns use the rate stamped on each trade (`rateNow` for older ones)
+function closedTradesCsv(entries: Entry[], rateNow: number | null) {
+  return toCsv(
+    ["id", "name", "mint", "strategy", "tags", "opened_at", "sold_at", "avg_entry_market_cap", "last_sell_market_cap", "buys_sol", "sold_base_sol", "returned_sol", "fees_sol", "pnl_sol", "pnl_percent", "peak_market_cap", "trough_market_cap", "mfe_percent", "mae_percent", "left_on_table_sol", "pnl_usd", "rating"],
+    entries.filter(e => e.status === "sold").map(e => {
+      const x = excursion(e);
+      return [
+        e.id, e.name, e.mint, e.strategy, e.tags?.join(" "), iso(e.fills[0]?.t), e.soldAt ?? "", e.entryMarketCap, e.sellMarketCap, e.cumulativeBuySOL,
+        e.cumulativeSellAmount, e.solReturned, e.cumulativeFeesSOL, e.pnl, e.pnlPercent,
+        e.peakMarketCap, e.troughMarketCap, x?.mfePct, x?.maePct, x?.leftSOL, entryUsd(e, rateNow)?.realized, e.journal?.rating,
+      ];
+    }),
+  );
+}
+
+function openPositionsCsv(entries: Entry[], rateNow: number | null) {
+  return toCsv(
+    ["id", "name", "mint", "strategy", "tags", "opened_at", "avg_entry_market_cap", "current_market_cap", "open_sol", "value_sol", "unrealized_pnl_sol", "unrealized_pnl_percent", "realized_pnl_sol", "buys_sol", "value_usd", "unrealized_pnl_usd", "realized_pnl_usd"],
+    entries.filter(e => e.status === "open").map(e => {
+      const value = positionValue(e);
+      const usd = entryUsd(e, rateNow);
+      return [
+        e.id, e.name, e.mint, e.strategy, e.tags?.join(" "), iso(e.fills[0]?.t), e.entryMarketCap, e.currentMarketCap ?? e.entryMarketCap, e.solInvested, value,
+        value - e.solInvested, e.solInvested > 0 ? (value / e.solInvested - 1) * 100 : 0, e.realizedPnl, e.cumulativeBuySOL,
+        rateNow ? value * rateNow : null, rateNow && usd ? value * rateNow - usd.basis : null, usd?.realized,
+      ];
+    }),
+  );
+}
+
+function fillsCsv(entries: Entry[]) {
+  return toCsv(
+    ["entry_id", "name", "fill_index", "timestamp", "side", "market_cap", "quoted_market_cap", "sol", "sol_returned", "fee_sol", "trigger", "sol_usd", "note"],
+    entries.flatMap(e => e.fills.map((f, i) => {
+      const rule = f.trigger ? e.exitRules?.find(r => r.id === f.trigger) : undefined;
+      return [e.id, e.name, i + 1, iso(f.t), f.side, f.marketCap, f.quotedMarketCap ?? f.marketCap, f.sol, f.solReturned, f.fee, rule ? ruleLabel(rule) : f.trigger ?? (f.order && "limit"), f.usd, f.note];
+    })),
+  );
+}
+
+function historyCsv(history: HistoryPoint[]) {
+  return toCsv(
+    ["timestamp", "balance_sol", "open_value_sol", "total_sol", "sol_usd", "total_usd"],
+    history.map(h => [iso(h.t), h.balance, h.openValue, h.balance + h.openValue, h.usd, h.usd && (h.balance + h.openValue) * h.usd]),
+  );
+}
+
+// ────────────────────────────────────────────────────────────────────────────────
+// SOL/USD
+// ────────────────────────────────────────────────────────────────────────────────
+
+// Display currency, shared by all portfolios. Values are still kept in SOL.
+type Currency = "SOL" | "USD";
+const CURRENCY_KEY = "sol-paper-trading-currency-v1";
+
+function loadCurrency(): Currency {
+  try { return localStorage.getItem(CURRENCY_KEY) === "USD" ? "USD" : "SOL"; } catch { return "SOL"; }
+}
+
+function saveCurrency(c: Currency) {
+  try { localStorage.setItem(CURRENCY_KEY, c); } catch { /* falls back to SOL next time */ }
+}
+
+function fmtUSD(n: number) { return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 }).format(n); }
+
+// The rate to stamp on whatever is being recorded in `s`
+function usdStamp(s: AppState): { usd?: number } { return s.usdRate ? { usd: s.usdRate } : {}; }
+
+function withUsdRate(s: AppState, rate: number | null, t = Date.now()): AppState {
+  if (!rate || rate === s.usdRate) return s;
+  let usdRates = [...(s.usdRates ?? []), { t, rate }];
+  if (usdRates.length > RATES_LIMIT) usdRates = usdRates.filter((_, i) => i % 2 === 0 || i === usdRates.length - 1);
+  return { ...s, usdRate: rate, usdRates };
+}
+
+// The last rate at or before t (the first one if t is earlier than all of them)
+function rateAt(series: RatePoint[], t: number): number | null {
+  if (!series.length) return null;
+  let found = series[0].rate;
+  for (const p of series) { if (p.t > t) break; found = p.rate; }
+  return found;
+}
+
+// Next rate for a mock / file source; null = leave it
+function nextUsdRate(settings: UsdSettings, current: number | undefined, t: number): number | null {
+  if (settings.source === "file") return rateAt(settings.series ?? [], t);
+  if (settings.source === "mock") {
+    const vol = (settings.volatilityPct ?? DEFAULT_USD.volatilityPct!) / 100;
+    return Number(((current ?? 150) * (1 + (Math.random() * 2 - 1) * vol)).toFixed(4));
+  }
+  return null;
+}
+
+function rateSeriesError(series: unknown[]): string | null {
+  for (const [i, p] of series.entries()) {
+    if (!isObj(p) || typeof p.t !== "number" || !isFinite(p.t) || !isFinitePos(p.rate)) return `point ${i + 1} must be { t: number, rate: positive number }`;
+  }
+  return null;
+}
+
+// A rate file: JSON [{ t, rate }] or { "<time>": rate }, or CSV lines of
+// time,rate. Times are epoch ms or anything Date.parse reads.
+function parseRateFile(text: string): RatePoint[] | string {
+  const time = (v: unknown) => typeof v === "number" ? v : /^\d+$/.test(String(v).trim()) ? Number(v) : Date.parse(String(v));
+  let points: RatePoint[];
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (Array.isArray(parsed)) points = parsed.map(p => isObj(p) ? { t: time(p.t), rate: Number(p.rate) } : { t: NaN, rate: NaN });
+    else if (isObj(parsed)) points = Object.entries(parsed).map(([k, v]) => ({ t: time(k), rate: Number(v) }));
+    else return "expected a list of { t, rate } or an object of time -> rate";
+  } catch {
+    points = text.split(/\r?\n/).map(l => l.trim()).filter(l => l && !/^[a-z_"]+,/i.test(l)).map(l => {
+      const [t, rate] = l.split(",");
+      return { t: time(t), rate: Number(rate) };
+    });
+  }
+  if (!points.length) return "no rates found";
+  const err = rateSeriesError(points);
+  return err ?? points.sort((a, b) => a.t - b.t);
+}
+
+// Realized P/L in USD at the rate of each trade: a sell's proceeds at its rate
+// minus what the SOL basis it closed cost in USD when bought. Fills recorded
+// before there was a rate use the entry's first known rate, else `rateNow`.
+function entryUsd(e: Entry, rateNow: number | null): { realized: number; basis: number } | null {
+  const fallback = e.fills.find(f => f.usd)?.usd ?? rateNow;
+  if (!fallback) return null;
+  let basisSol = 0, basis = 0, realized = 0;
+  for (const f of e.fills) {
+    const r = f.usd ?? fallback;
+    if (f.side === "buy") {
+      basisSol += f.sol;
+      basis += f.sol * r;
+      realized -= f.fee * r;
+    } else if (f.side === "sell") {
+      const released = basisSol > 0 ? basis * Math.min(1, f.sol / basisSol) : 0;
+      basisSol -= f.sol;
+      basis -= released;
+      realized += (f.solReturned - f.fee) * r - released;
+    } else {
+      basisSol = f.sol;
+      basis = f.sol * r;
+    }
+  }
+  return { realized, basis: Math.max(0, basis) };
+}
+
+// How amounts are shown. `fmt` takes SOL; in USD it converts at `at` (the rate
+// stamped on the record) or the current rate. Without a rate it stays in SOL.
+type Money = { currency: Currency; rate: number | null; fmt: (sol: number, at?: number) => string };
+
+function makeMoney(currency: Currency, rate: number | undefined): Money {
+  const usd = currency === "USD" && !!rate;
+  return { currency: usd ? "USD" : "SOL", rate: rate ?? null, fmt: (sol, at) => usd ? fmtUSD(sol * (at ?? rate!)) : fmtSOL(sol) };
+}
+
+// Realized P/L of closed or partly closed entries in the display currency
+function fmtRealized(money: Money, entries: Entry[], sol: number) {
+  if (money.currency === "SOL") return fmtSOL(sol);
+  return fmtUSD(entries.reduce((sum, e) => sum + (entryUsd(e, money.rate)?.realized ?? 0), 0));
+}
+
+// ────────────────────────────────────────────────────────────────────────────────
+// Journal
+// ────────────────────────────────────────────────────────────────────────────────
+
+const SHOT_MAX_BYTES = 5_000_000;
+
+// Everything the entries search matches against, lowercased
+function searchText(e: Entry): string {
+  return [
+    e.name, e.ticker, e.mint, e.notes, e.strategy, ...(e.tags ?? []),
+    e.journal?.thesis, e.journal?.review, ...e.fills.map(f => f.note),
+  ].filter(Boolean).join("\n").toLowerCase();
+}
+
+// Replace the fill notes (one per fill, "" = none) and journal of entries[idx]
+function withJournal(s: AppState, idx: number, journal: Journal, notes: string[]): AppState {
+  const e = s.entries[idx];
+  const fills = e.fills.map((f, i) => {
+    const note = notes[i] ?? f.note ?? "";
+    if ((f.note ?? "") === note) return f;
+    const next = { ...f };
+    if (note) next.note = note; else delete next.note;
+    return next;
+  });
+  const hasJournal = Object.keys(journal).length > 0;
+  if (same(hasJournal ? journal : undefined, e.journal) && fills.every((f, i) => f === e.fills[i])) return s;
+  const updated: Entry = { ...e, fills };
+  if (hasJournal) updated.journal = journal; else delete updated.journal;
+  const entries = [...s.entries]; entries[idx] = updated;
+  return { ...s, entries };
+}
+
+// ────────────────────────────────────────────────────────────────────────────────
+// Market data feed
+// ────────────────────────────────────────────────────────────────────────────────
+
+// A source of live market caps keyed by token mint. `quote` rejects for one
+// mint without affecting the others; polling and backoff live in useMcapFeed.
+// `last` is the mcap currently shown for the mint, for sources that need a start.
+interface McapProvider {
+  label: string;
+  quote(mint: string, last: number, signal: AbortSignal): Promise<number>;
+}
+
+type FeedStatus = { ok?: number; error?: string; failures: number; retryAt?: number };
+
+const FEED_MAX_BACKOFF_MS = 5 * 60_000;
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => { clearTimeout(id); reject(signal.reason); };
+    const id = setTimeout(() => { signal.removeEventListener("abort", onAbort); resolve(); }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Random walk from the shown mcap, with fake latency and optional failures. No network.
+function mockProvider(volatilityPct: number, failPct: number): McapProvider {
+  return {
+    label: "Mock",
+    async quote(_mint, last, signal) {
+      await sleep(50 + Math.random() * 250, signal);
+      if (Math.random() * 100 < failPct) throw new Error("simulated outage");
+      return Math.max(1, last * (1 + (Math.random() * 2 - 1) * volatilityPct / 100));
+    },
+  };
+}
+
+// Plays back a recorded series per mint, one value per poll, then holds the last value
+function replayProvider(series: Record<string, number[]>): McapProvider {
+  const cursor = new Map<string, number>();
+  return {
+    label: "Replay",
+    async quote(mint) {
+      const values = series[mint];
+      if (!values?.length) throw new Error("no replay data for this mint");
+      const i = cursor.get(mint) ?? 0;
+      cursor.set(mint, Math.min(i + 1, values.length - 1));
+      return values[i];
+    },
+  };
+}
+
+function makeProvider(feed: FeedSettings | undefined): McapProvider | null {
+  if (feed?.provider === "mock") return mockProvider(feed.volatilityPct ?? 5, feed.failPct ?? 0);
+  if (feed?.provider === "replay" && feed.replay) return replayProvider(feed.replay);
+  return null;
+}
+
+function replaySeriesError(series: Raw): string | null {
+  for (const [mint, values] of Object.entries(series)) {
+    if (!Array.isArray(values) || !values.length) return `"${mint}": expected a non-empty list of market caps`;
+    const bad = values.findIndex(v => !isFinitePos(v));
+    if (bad !== -1) return `"${mint}"[${bad}]: expected a positive number, got ${JSON.stringify(values[bad])}`;
+  }
+  return null;
+}
+
+// Replay recordings are JSON: { "<mint>": [mcap, mcap, ...], ... }
+function parseReplay(text: string): { ok: true; series: Record<string, number[]> } | { ok: false; error: string } {
+  let parsed: unknown;
+  try { parsed = JSON.parse(text); } catch { return { ok: false, error: "Not valid JSON." }; }
+  if (!isObj(parsed)) return { ok: false, error: "Expected an object of mint -> list of market caps." };
+  const err = replaySeriesError(parsed);
+  if (err) return { ok: false, error: err };
+  if (!Object.keys(parsed).length) return { ok: false, error: "The recording has no mints." };
+  return { ok: true, series: parsed as Record<string, number[]> };
+}
+
+// Polls `provider` for every target mint each interval. A mint that fails is
+// retried with exponential backoff (capped) while the others keep updating.
+function useMcapFeed(provider: McapProvider | null, intervalMs: number, targets: { mint: string; mcap: number }[], onQuotes: (quotes: Map<string, number>) => void) {
+  const [status, setStatus] = useState<Record<string, FeedStatus>>({});
+  const targetsRef = useRef(targets);
+  const onQuotesRef = useRef(onQuotes);
+  useEffect(() => { targetsRef.current = targets; onQuotesRef.current = onQuotes; });
+
+  useEffect(() => {
+    setStatus({});
+    if (!provider) return;
+    const ctl = new AbortController();
+    const byMint = new Map<string, FeedStatus>();
+    let timer: number | undefined;
+
+    async function tick() {
+      const now = Date.now();
+      const last = new Map(targetsRef.current.map(t => [t.mint, t.mcap]));
+      for (const mint of byMint.keys()) if (!last.has(mint)) byMint.delete(mint);
+      const due = [...last.keys()].filter(m => (byMint.get(m)?.retryAt ?? 0) <= now);
+      const results = await Promise.allSettled(due.map(m => provider!.quote(m, last.get(m)!, ctl.signal)));
+      if (ctl.signal.aborted) return;
+
+      const quotes = new Map<string, number>();
+      results.forEach((r, i) => {
+        const mint = due[i];
+        const prev = byMint.get(mint);
+        if (r.status === "fulfilled" && isFinitePos(r.value)) {
+          quotes.set(mint, r.value);
+          byMint.set(mint, { ok: Date.now(), failures: 0 });
+        } else {
+          const failures = (prev?.failures ?? 0) + 1;
+          const error = r.status === "rejected" ? (r.reason instanceof Error ? r.reason.message : String(r.reason)) : `invalid quote ${JSON.stringify(r.value)}`;
+          byMint.set(mint, { ok: prev?.ok, error, failures, retryAt: Date.now() + Math.min(intervalMs * 2 ** failures, FEED_MAX_BACKOFF_MS) });
+        }
+      });
+      if (quotes.size) onQuotesRef.current(quotes);
+      setStatus(Object.fromEntries(byMint));
+      timer = window.setTimeout(tick, intervalMs);
+    }
+
+    tick();
+    return () => { ctl.abort(); window.clearTimeout(timer); };
+  }, [provider, intervalMs]);
+
+  return status;
+}
+
 // ────────────────────────────────────────────────────────────────────────────────
 // App
 // ────────────────────────────────────────────────────────────────────────────────
 
 export default function App() {
-  const [state, setState] = useState<AppState>(() => loadState());
-  useEffect(() => { saveState(state); }, [state]);
+  const [index, setIndex] = useState<PortfolioIndex>(() => loadPortfolios());
+  useEffect(() => { savePortfolios(index); }, [index]);
+  // Another tab created, renamed or deleted a portfolio. The open one stays open here unless it was deleted.
+  useEffect(() => {
+    function onStorage(ev: StorageEvent) {
+      if (ev.key !== PORTFOLIOS_KEY || ev.newValue === null) return;
+      const next = loadPortfolios();
+      setIndex(ix => ({ ...next, activeId: next.portfolios.some(p => p.id === ix.activeId) ? ix.activeId : next.activeId }));
+    }
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+  const [manageOpen, setManageOpen] = useState(false);
+  const [backend, setBackend] = useState<StorageBackend | null>(null);
+  useEffect(() => { openStorage().then(setBackend); }, []);
+
+  async function createPortfolio(name: string, copyFrom?: string) {
+    const meta: PortfolioMeta = { id: newPortfolioId(), name, createdAt: Date.now() };
+    if (copyFrom && backend) {
+      try {
+        const { state } = await loadPortfolioState(backend, copyFrom);
+        // Journal screenshots are copied with the state, under the new id
+        const shots = state.entries.flatMap(e => (e.journal?.shots ?? []).map(x => ({ from: shotKey(copyFrom, e.id, x.id), to: shotKey(meta.id, e.id, x.id) })));
+        const records = await Promise.all(shots.map(x => backend.get("attachments", x.from)));
+        const copies: WriteOp[] = shots.flatMap((x, i) => records[i] === undefined ? [] : [{ store: "attachments", put: x.to, value: records[i] }]);
+        await backend.write([...stateWrites(meta.id, null, state), ...copies]);
+      } catch { alert("Could not copy portfolio data (storage full?)."); return; }
+    }
+    setIndex(ix => ({ activeId: meta.id, portfolios: [...ix.portfolios, meta] }));
+  }
+
+  function renamePortfolio(id: string, name: string) {
+    setIndex(ix => ({ ...ix, portfolios: ix.portfolios.map(p => p.id === id ? { ...p, name } : p) }));
+  }
+
+  function deletePortfolio(id: string) {
+    if (index.portfolios.length <= 1) return alert("Keep at least one portfolio.");
+    try { localStorage.removeItem(stateKey(id)); localStorage.removeItem(undoKey(id)); } catch { /* already gone */ }
+    backend?.write(clearPortfolio(id)).catch(() => alert("Could not delete the portfolio's stored data; it still takes up browser storage."));
+    setIndex(ix => {
+      const portfolios = ix.portfolios.filter(p => p.id !== id);
+      return { activeId: ix.activeId === id ? portfolios[0].id : ix.activeId, portfolios };
+    });
+  }
+
+  const switcher = (
+    <div className="flex items-center gap-1">
+      <select
+        value={index.activeId}
+        onChange={(e) => setIndex(ix => ({ ...ix, activeId: e.target.value }))}
+        className="rounded-xl bg-slate-900 border border-slate-700 px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+        title="Switch portfolio"
+      >
+        {index.portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      <button onClick={() => setManageOpen(true)} className="p-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" title="Create, rename, duplicate or delete portfolios">
+        <FolderCog className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  return (
+    <>
+      {backend
+        ? <PortfolioLoader key={index.activeId} backend={backend} portfolio={index.portfolios.find(p => p.id === index.activeId)!} switcher={switcher} />
+        : <LoadingScreen />}
+      {manageOpen && (
+        <PortfolioManager
+          index={index}
+          onClose={() => setManageOpen(false)}
+          onSwitch={(id) => setIndex(ix => ({ ...ix, activeId: id }))}
+          onCreate={createPortfolio}
+          onRename={renamePortfolio}
+          onDelete={deletePortfolio}
+        />
+      )}
+    </>
+  );
+}
+
+function LoadingScreen() {
+  return <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">Loading…</div>;
+}
+
+// One portfolio's session; remounted (via key) whenever the active portfolio changes
+function PortfolioLoader({ backend, portfolio, switcher }: { backend: StorageBackend; portfolio: PortfolioMeta; switcher: React.ReactNode }) {
+  const [loaded, setLoaded] = useState<LoadedPortfolio | null>(null);
+  useEffect(() => {
+    let live = true;
+    loadPortfolioState(backend, portfolio.id)
+      .catch(() => ({ state: loadState(stateKey(portfolio.id)), stored: false, rev: 0 }))
+      .then(r => { if (live) setLoaded(r); });
+    return () => { live = false; };
+  }, [backend, portfolio.id]);
+  if (!loaded) return <LoadingScreen />;
+  return <PortfolioView backend={backend} portfolio={portfolio} switcher={switcher} initial={loaded} />;
+}
+
+function PortfolioView({ backend, portfolio, switcher, initial }: { backend: StorageBackend; portfolio: PortfolioMeta; switcher: React.ReactNode; initial: LoadedPortfolio }) {
+  const portfolioId = portfolio.id;
+  const [timeline, setTimeline] = useState<Timeline>(() => ({ present: initial.state, ...loadUndo(undoKey(portfolioId)) }));
+  const state = timeline.present;
+
+  // Saving and syncing with other tabs run one task at a time. `synced` is what
+  // the store holds at `rev`; each save writes only what changed since then, and
+  // only if no other tab wrote in between. If one did, we pull, merge, and the
+  // merged state gets saved on top of theirs.
+  const [storageError, setStorageError] = useState<number | null>(null);
+  const [syncNotes, setSyncNotes] = useState<string[] | null>(null);
+  const synced = useRef<AppState | null>(initial.stored ? initial.state : null);
+  const rev = useRef(initial.rev);
+  const latest = useRef(state);
+  const queue = useRef(Promise.resolve());
+  const channel = useRef<BroadcastChannel | null>(null);
+  const steps = useRef<Pick<Timeline, "past" | "future">>(timeline);
+  const ownShots = useRef(new Set<string>());
+  const freshShots = useRef(new Set<string>());
+
+  function enqueue(task: () => Promise<void>) {
+    queue.current = queue.current.then(task).catch(() => setStorageError(prev => prev ?? Date.now()));
+  }
+
+  async function save() {
+    const next = latest.current;
+    if (next === synced.current) return;
+    const adopting = synced.current === null && !initial.stored;
+    try {
+      await backend.write(stateWrites(portfolioId, synced.current, next, rev.current + 1), {
+        store: "settings", key: `${portfolioId}/state`, test: cur => storedRev(cur) === rev.current,
+      });
+    } catch (err) {
+      if (err instanceof WriteConflict) return pull();
+      // Writes are atomic, so the store still holds `synced`; the next save retries the lot
+      setStorageError(prev => prev ?? Date.now());
+      return;
+    }
+    synced.current = next;
+    rev.current += 1;
+    channel.current?.postMessage({ pid: portfolioId, rev: rev.current });
+    setStorageError(null);
+    // The localStorage copy now lives in IndexedDB
+    if (adopting && backend.kind === "indexeddb") try { localStorage.removeItem(stateKey(portfolioId)); } catch { /* leave it */ }
+  }
+
+  async function pull() {
+    const remote = await loadPortfolioState(backend, portfolioId);
+    if (!remote.stored || remote.rev === rev.current) return;
+    const base = synced.current ?? emptyState();
+    synced.current = remote.state;
+    rev.current = remote.rev;
+    // Undo snapshots predate the other tab's trades; restoring one would erase them
+    const traded = fillCount(remote.state) !== fillCount(base) || remote.state.balance !== base.balance;
+    const local = latest.current;
+    const { state: merged, notes } = local === base ? { state: remote.state, notes: [] } : mergeStates(base, local, remote.state);
+    setTimeline(tl => {
+      // A local change that hasn't reached `latest` yet is merged the same way, without notes
+      const present = tl.present === local ? merged : tl.present === base ? remote.state : mergeStates(base, tl.present, remote.state).state;
+      return traded ? { present, past: [], future: [] } : { ...tl, present };
+    });
+    if (notes.length || traded) setSyncNotes([...(traded ? ["Another tab traded on this portfolio; its changes are loaded and undo history was cleared."] : []), ...notes]);
+  }
+
+  useEffect(() => {
+    latest.current = state;
+    if (state !== synced.current) enqueue(save);
+  }, [state]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (backend.kind !== "indexeddb" || typeof BroadcastChannel === "undefined") return;
+    const ch = new BroadcastChannel(SYNC_CHANNEL);
+    ch.onmessage = (ev: MessageEvent<{ pid: string; rev: number }>) => {
+      if (ev.data?.pid === portfolioId && ev.data.rev > rev.current) enqueue(pull);
+    };
+    channel.current = ch;
+    return () => { ch.close(); channel.current = null; };
+  }, [backend, portfolioId]); // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => {
+    saveUndo(undoKey(portfolioId), timeline);
+    steps.current = timeline;
+    enqueue(collectShots);
+  }, [portfolioId, timeline.past, timeline.future]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Delete the screenshots this tab's journal saves added or removed (`ownShots`)
+  // once nothing shows them: not the state, an undo/redo step, the synced copy or
+  // an archived session. Other tabs' shots are theirs to delete. `freshShots` were
+  // written for a journal save that hasn't rendered yet. The rev guard skips the
+  // round if another tab wrote in between.
+  async function collectShots() {
+    const own = ownShots.current;
+    const used = usedShots(portfolioId, [latest.current, ...(synced.current ? [synced.current] : []), ...steps.current.past.map(u => u.state), ...steps.current.future.map(u => u.state)]);
+    for (const k of freshShots.current) if (used.has(k)) { freshShots.current.delete(k); own.add(k); }
+    const unused = [...own].filter(k => !used.has(k));
+    if (!unused.length) return;
+    const archived = usedShots(portfolioId, (await backend.getPrefix("archive", `${portfolioId}/`)).flatMap(a => readArchived(a)?.state ?? []));
+    try {
+      await backend.write(unused.filter(k => !archived.has(k)).map(k => ({ store: "attachments", del: k })), {
+        store: "settings", key: `${portfolioId}/state`, test: cur => storedRev(cur) === rev.current,
+      });
+    } catch (err) {
+      if (err instanceof WriteConflict) return; // tried again on the next change
+      throw err;
+    }
+    for (const k of unused) own.delete(k);
+  }
+
+  // Writes that should not become undo steps (graph snapshots, reset)
+  function setState(next: AppState | ((s: AppState) => AppState)) {
+    setTimeline(tl => {
+      const present = typeof next === "function" ? next(tl.present) : next;
+      return present === tl.present ? tl : { ...tl, present };
+    });
+  }
+
+  // Undoable write: `fn` returning the same object means "rejected", nothing is recorded
+  function commit(label: string, fn: (s: AppState) => AppState) {
+    setTimeline(tl => {
+      const present = fn(tl.present);
+      if (present === tl.present) return tl;
+      return { present, past: [...tl.past, { label, state: snapshot(tl.present) }].slice(-UNDO_LIMIT), future: [] };
+    });
+  }
+
+  // commit() guarded by `check`, which returns why the action can't run. It is
+  // asked about the rendered state first, so the alert fires once and outside
+  // the updater (React may call updaters twice); inside, a failed check just
+  // rejects quietly in case the state moved on in between. False = rejected.
+  function commitChecked(label: string, check: (s: AppState) => string | null, fn: (s: AppState) => AppState): boolean {
+    const err = check(state);
+    if (err) { alert(err); return false; }
+    commit(label, s => check(s) === null ? fn(s) : s);
+    return true;
+  }
+
+  useEffect(() => {
+    function onKey(ev: KeyboardEvent) {
+      if (!(ev.ctrlKey || ev.metaKey)) return;
+      const el = ev.target as HTMLElement | null;
+      if (el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.isContentEditable)) return; // keep native text undo
+      const key = ev.key.toLowerCase();
+      if (key === "z" && !ev.shiftKey) { ev.preventDefault(); setTimeline(undoTimeline); }
+      else if ((key === "z" && ev.shiftKey) || key === "y") { ev.preventDefault(); setTimeline(redoTimeline); }
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
 
   // UI state
   const [graphOpen, setGraphOpen] = useState(false);
@@ -98,35 +2064,71 @@ export default function App() {
   const [sellingId, setSellingId] = useState<string | null>(null);
   const [buyMoreId, setBuyMoreId] = useState<string | null>(null);
   const [previewEntry, setPreviewEntry] = useState<Entry | null>(null);
+  const [fillsId, setFillsId] = useState<string | null>(null);
+  const [exitsId, setExitsId] = useState<string | null>(null);
+  const [limitOpen, setLimitOpen] = useState(false);
+  const [orderMcaps, setOrderMcaps] = useState<Record<string, string>>({});
+  const [csvOpen, setCsvOpen] = useState(false);
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  const [feesOpen, setFeesOpen] = useState(false);
+  const defaultFees = state.fees ?? DEFAULT_FEES;
   const [confirmReset, setConfirmReset] = useState(false);
   const [showActiveOnly, setShowActiveOnly] = useState(false);
+  const [strategyFilter, setStrategyFilter] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [search, setSearch] = useState("");
+  const [journalId, setJournalId] = useState<string | null>(null);
   const [balanceModalOpen, setBalanceModalOpen] = useState(false);
   const [balanceDelta, setBalanceDelta] = useState<string>("");
+  const [balanceNote, setBalanceNote] = useState("");
   const [mcapEditId, setMcapEditId] = useState<string | null>(null);
   const [mcapEditValue, setMcapEditValue] = useState<string>("");
+  const [restore, setRestore] = useState<{ fileName: string; state: AppState; fromVersion: number } | { fileName: string; errors: string[] } | null>(null);
 
   const openEntries = useMemo(() => state.entries.filter(e => e.status === "open"), [state.entries]);
   const soldEntries = useMemo(() => state.entries.filter(e => e.status === "sold"), [state.entries]);
 
+  const [links, setLinks] = useState<TokenLink[]>(() => loadLinks());
+  const [linksOpen, setLinksOpen] = useState(false);
+  useEffect(() => { saveLinks(links); }, [links]);
+
+  const feedSettings = state.feed ?? DEFAULT_FEED;
+  const [feedOpen, setFeedOpen] = useState(false);
+  const [analyticsOpen, setAnalyticsOpen] = useState(false);
+  // Keyed on the settings' values: undo/redo swaps in an equal feed object, and a
+  // rebuilt replay provider would start its series over.
+  const feedKey = JSON.stringify(state.feed ?? null);
+  const provider = useMemo(() => makeProvider(JSON.parse(feedKey) ?? undefined), [feedKey]);
+  const feedTargets = openEntries.filter(e => e.mint).map(e => ({ mint: e.mint!, mcap: e.currentMarketCap ?? e.entryMarketCap }));
+  const feedStatus = useMcapFeed(state.startingBalance === null ? null : provider, feedSettings.intervalSec * 1000, feedTargets, applyFeedQuotes);
+
+  // SOL/USD ticks only move the rate, so they stay out of undo like graph points
+  const usdSettings = state.usd ?? DEFAULT_USD;
+  // Keyed on the values like feedKey: undo/redo and pulls bring equal settings in a new object
+  const usdKey = JSON.stringify(state.usd ?? null);
+  useEffect(() => {
+    if (usdSettings.source === "manual" || state.startingBalance === null) return;
+    const tick = () => setState(s => withUsdRate(s, nextUsdRate(s.usd ?? DEFAULT_USD, s.usdRate, Date.now())));
+    tick();
+    const id = setInterval(tick, usdSettings.intervalSec * 1000);
+    return () => clearInterval(id);
+  }, [usdKey, state.startingBalance === null]); // eslint-disable-line react-hooks/exhaustive-deps
+
 
 // append a new history point if changed
 function pushHistoryPoint() {
   setState(s => {
     const openValue = s.entries
       .filter(e => e.status === "open")
-      .reduce((sum, e) => {
-        const cur = (e.currentMarketCap ?? e.entryMarketCap);
-        const mult = cur > 0 ? cur / e.entryMarketCap : 1;
-        return sum + e.solInvested * mult;
-      }, 0);
+      .reduce((sum, e) => sum + positionValue(e), 0);
 
     const h = s.history ?? [];
     const last = h[h.length - 1];
-    const point: HistoryPoint = { t: Date.now(), balance: s.balance, openValue };
+    const point: HistoryPoint = { t: Date.now(), balance: s.balance, openValue, ...usdStamp(s) };
     if (last && Math.abs(last.balance - point.balance) < 1e-9 && Math.abs(last.openValue - point.openValue) < 1e-9) {
       return s; // no change
     }
-    return { ...s, history: [...h, point] };
+    return { ...s, history: compactHistory([...h, point], s.retention ?? DEFAULT_RETENTION) };
   });
 }
 
@@ -136,185 +2138,379 @@ useEffect(() => {
   // eslint-disable-next-line react-hooks/exhaustive-deps
 }, [state.balance, state.entries]); // runs after buys/sells/mcap edits
   const totals = useMemo(() => {
-    const investedOpen = openEntries.reduce((s, e) => {
-      const cur = (e.currentMarketCap ?? e.entryMarketCap);
-      const mult = cur > 0 ? cur / e.entryMarketCap : 1;
-      return s + e.solInvested * mult;
-    }, 0);
+    const investedOpen = openEntries.reduce((s, e) => s + positionValue(e), 0);
     const realized = soldEntries.reduce((s, e) => s + (e.pnl ?? 0), 0);
     return { investedOpen, realized };
   }, [openEntries, soldEntries]);
 
-  // Win rate (classic: per closed trade)
-  const winStats = useMemo(() => {
-    const closed = soldEntries.length;
-    const wins = soldEntries.filter(e => (e.pnl ?? 0) > 0).length;
-    const losses = closed - wins;
-    const winRate = closed > 0 ? (wins / closed) * 100 : 0;
-    return { closed, wins, losses, winRate };
-  }, [soldEntries]);
+  const capital = useMemo(() => capitalStats(state), [state]);
 
-  const avgReturns = useMemo(() => {
-  if (soldEntries.length === 0) return { avgPct: 0, avgAbs: 0 };
-  const pctList = soldEntries.map(e => e.pnlPercent ?? 0);
-  const absList = soldEntries.map(e => e.pnl ?? 0);
-  const avgPct = pctList.reduce((a, b) => a + b, 0) / pctList.length;
-  const avgAbs = absList.reduce((a, b) => a + b, 0) / absList.length;
-  return { avgPct, avgAbs };
-}, [soldEntries]);
+  // Display currency. In USD the graph revalues every point at the rate it was recorded with.
+  const [currency, setCurrency] = useState<Currency>(loadCurrency);
+  useEffect(() => { saveCurrency(currency); }, [currency]);
+  const money = makeMoney(currency, state.usdRate);
+  const [usdOpen, setUsdOpen] = useState(false);
+  const graphValues = useMemo(() => {
+    const history = state.history ?? [], flows = state.cashFlows ?? [];
+    if (money.currency === "SOL") return { series: history, startingBalance: state.startingBalance ?? 0, flows, unit: "SOL" as const };
+    const r = (at?: number) => at ?? money.rate!;
+    return {
+      series: history.map(p => ({ ...p, balance: p.balance * r(p.usd), openValue: p.openValue * r(p.usd) })),
+      startingBalance: (state.startingBalance ?? 0) * r(history[0]?.usd),
+      flows: flows.map(f => ({ ...f, amount: f.amount * r(f.usd) })),
+      unit: "USD" as const,
+    };
+  }, [state.history, state.cashFlows, state.startingBalance, money.currency, money.rate]);
+  const winStats = useMemo(() => computeWinStats(soldEntries), [soldEntries]);
+  const avgReturns = useMemo(() => computeAvgReturns(soldEntries), [soldEntries]);
+  const excursionStats = useMemo(() => computeExcursionStats(soldEntries), [soldEntries]);
+
+  const strategies = useMemo(() => usedLabels(state.entries, entryStrategy), [state.entries]);
+  const tags = useMemo(() => usedLabels(state.entries, entryTags), [state.entries]);
 
-  // Entries to render (with hide old toggle)
+  // Entries to render (with hide old toggle and strategy / tag filters)
   const entriesForList = useMemo(() => {
-    const list = showActiveOnly ? state.entries.filter(e => e.status === 'open') : state.entries;
+    let list = showActiveOnly ? state.entries.filter(e => e.status === 'open') : state.entries;
+    if (strategyFilter) list = list.filter(e => e.strategy === strategyFilter);
+    if (tagFilter) list = list.filter(e => e.tags?.includes(tagFilter));
+    const q = search.trim().toLowerCase();
+    if (q) list = list.filter(e => searchText(e).includes(q));
     return list;
-  }, [state.entries, showActiveOnly]);
+  }, [state.entries, showActiveOnly, strategyFilter, tagFilter, search]);
 
   // ── Actions ───────────────────────────────────────────────────────────────
   function setStartingBalance(n: number) {
-    setState({ startingBalance: n, balance: n, entries: [], nextId: 1 });
-  }
-
-  function addEntry(data: { name: string; entryMarketCap: number; solInvested: number }) {
-    setState(s => {
-      if (s.balance < data.solInvested) { alert("Insufficient balance."); return s; }
-      const entry: Entry = {
-        id: String(s.nextId),
-        name: data.name.trim() || `Entry #${s.nextId}`,
-        entryMarketCap: data.entryMarketCap,
-        currentMarketCap: data.entryMarketCap,
-        solInvested: data.solInvested,
-        status: "open",
-        cumulativeBuySOL: data.solInvested,
-        cumulativeSellAmount: 0,
-        cumulativeSellReturnedSOL: 0,
-        realizedPnl: 0,
-      };
-      return { ...s, balance: s.balance - data.solInvested, entries: [entry, ...s.entries], nextId: s.nextId + 1 };
+    setTimeline({ present: { startingBalance: n, balance: n, entries: [], nextId: 1, startedAt: Date.now() }, past: [], future: [] });
+  }
+
+  function addEntry(data: NewPosition) {
+    const check = (s: AppState) => {
+      const cost = data.solInvested + tradeFee(data.solInvested, data.fees);
+      if (availableSOL(s) < cost) return "Insufficient available balance (including fees and reserved orders).";
+      const dup = data.mint && s.entries.find(e => e.status === "open" && e.mint === data.mint);
+      return dup ? `This mint is already open as ${dup.name} (#${dup.id}). Use Buy More on it instead.` : null;
+    };
+    if (commitChecked(`Bought ${fmtNum(data.solInvested)} SOL of ${data.name.trim() || "new entry"} @ ${fmtMcap(data.entryMarketCap)}`, check, s => openPosition(s, data))) setShowNew(false);
+  }
+
+  function updateCurrentMcap(id: string, mcap: number) {
+    commit(`Set ${entryName(id)} mcap to ${fmtMcap(mcap)}`, s => {
+      const idx = s.entries.findIndex(e => e.id === id); if (idx === -1) return s;
+      const e = s.entries[idx];
+      const updated = withMark(e, mcap);
+      const entries = [...s.entries]; entries[idx] = updated;
+      return afterMarketMove({ ...s, entries }, idx);
+    });
+  }
+
+  // Feed ticks only move marks, so they stay out of undo. A tick that trades
+  // (limit fill, TP/SL) is recorded as one undo step so the trade can be reverted.
+  function applyFeedQuotes(quotes: Map<string, number>) {
+    setTimeline(tl => {
+      let s = tl.present;
+      for (let idx = 0; idx < s.entries.length; idx++) {
+        const e = s.entries[idx];
+        const mcap = e.status === "open" && e.mint ? quotes.get(e.mint) : undefined;
+        if (mcap === undefined || mcap === e.currentMarketCap) continue;
+        const entries = [...s.entries]; entries[idx] = withMark(e, mcap);
+        s = afterMarketMove({ ...s, entries }, idx);
+      }
+      if (s === tl.present) return tl;
+      const traded = fillCount(s) - fillCount(tl.present);
+      if (traded === 0) return { ...tl, present: s };
+      const label = `Feed update (${traded} triggered fill${traded === 1 ? "" : "s"})`;
+      return { present: s, past: [...tl.past, { label, state: snapshot(tl.present) }].slice(-UNDO_LIMIT), future: [] };
     });
-    setShowNew(false);
   }
 
-  function updateCurrentMcap(id: string, mcap: number) {
-    setState(s => {
+  function setRetention(retention: RetentionSettings) {
+    setState(s => ({ ...s, retention, history: compactHistory(s.history ?? [], retention) }));
+  }
+
+  function setUsd(usd: UsdSettings, manualRate: number | null) {
+    commit(`Set SOL/USD source to ${usd.source}`, s => ({ ...s, usd }));
+    if (manualRate) setState(s => withUsdRate(s, manualRate));
+    setUsdOpen(false);
+  }
+
+  function setFeed(feed: FeedSettings) {
+    commit(feed.provider === "off" ? "Turned the market data feed off" : `Set market data feed to ${feed.provider} every ${feed.intervalSec}s`, s => ({ ...s, feed }));
+    setFeedOpen(false);
+  }
+
+  function setExitRules(id: string, exitRules: ExitRule[]) {
+    commit(`Set exit rules on ${entryName(id)}`, s => {
       const idx = s.entries.findIndex(e => e.id === id); if (idx === -1) return s;
-      const e = s.entries[idx];
-      const updated: Entry = { ...e, currentMarketCap: mcap };
-      const entries = [...s.entries]; entries[idx] = updated;
-      return { ...s, entries };
+      const entries = [...s.entries]; entries[idx] = { ...s.entries[idx], exitRules };
+      // A level that is already crossed fires right away, like a marketable order
+      return cancelOrphanOrders(withExits({ ...s, entries }, idx));
+    });
+    setExitsId(null);
+  }
+
+  // Removed screenshots stay stored while an undo step shows them; collectShots deletes them later
+  async function saveJournal(id: string, journal: Journal, notes: string[], added: ShotRecord[]) {
+    const kept = new Set(journal.shots?.map(x => x.id));
+    for (const x of state.entries.find(e => e.id === id)?.journal?.shots ?? []) if (!kept.has(x.id)) ownShots.current.add(shotKey(portfolioId, id, x.id));
+    if (added.length) {
+      for (const r of added) freshShots.current.add(shotKey(portfolioId, id, r.id));
+      try {
+        await backend.write(shotWrites(portfolioId, id, added));
+      } catch {
+        return alert("Could not store the screenshots (browser storage may be full). The journal was not saved.");
+      }
+    }
+    commit(`Updated the journal of ${entryName(id)}`, s => {
+      const idx = s.entries.findIndex(e => e.id === id);
+      return idx === -1 ? s : withJournal(s, idx, journal, notes);
     });
+    setJournalId(null);
   }
 
-  function editEntry(id: string, updates: Partial<Pick<Entry, "name" | "entryMarketCap" | "solInvested">>) {
-    setState(s => {
+  function editEntry(id: string, updates: Partial<Pick<Entry, "name" | "entryMarketCap" | "solInvested" | "strategy" | "tags">> & { liquiditySOL?: number | null; mint?: string | null; ticker?: string; notes?: string; thesis?: string; supply?: number | null }) {
+    const check = (s: AppState) => {
+      const e = s.entries.find(x => x.id === id);
+      if (!e) return null;
+      const dup = updates.mint && s.entries.find(x => x.id !== id && x.status === "open" && x.mint === updates.mint);
+      if (dup) return `This mint is already open as ${dup.name} (#${dup.id}).`;
+      const delta = typeof updates.solInvested === "number" && isFinite(updates.solInvested) ? updates.solInvested - e.solInvested : 0;
+      return delta > 0 && availableSOL(s) < delta ? "Insufficient available balance to increase position size." : null;
+    };
+    const ok = commitChecked(`Edited ${entryName(id)}`, check, s => {
       const idx = s.entries.findIndex(e => e.id === id); if (idx === -1) return s;
       const e = s.entries[idx]; if (e.status !== "open") return s;
       let newBalance = s.balance;
-      const updated: Entry = { ...e };
+      let updated: Entry = { ...e };
       if (typeof updates.name === "string") updated.name = updates.name;
-      if (typeof updates.entryMarketCap === "number" && isFinitePos(updates.entryMarketCap)) {
-        updated.entryMarketCap = updates.entryMarketCap;
-        // when editing avg entry, do not change current mcap automatically
+      if (updates.mint === null) delete updated.mint;
+      else if (updates.mint) updated.mint = updates.mint;
+      for (const k of ["ticker", "notes"] as const) {
+        if (updates[k] === undefined) continue;
+        if (updates[k]) updated[k] = updates[k]; else delete updated[k];
+      }
+      if (updates.strategy) updated.strategy = updates.strategy;
+      if (updates.tags) { if (updates.tags.length) updated.tags = updates.tags; else delete updated.tags; }
+      if (updates.thesis !== undefined && updates.thesis !== (e.journal?.thesis ?? "")) {
+        const journal: Journal = { ...e.journal, thesis: updates.thesis };
+        if (!updates.thesis) delete journal.thesis;
+        if (Object.keys(journal).length) updated.journal = journal; else delete updated.journal;
       }
+      if (updates.supply === null) delete updated.supply;
+      else if (isFinitePos(updates.supply)) updated.supply = updates.supply;
+      if (updates.liquiditySOL === null) { delete updated.liquiditySOL; delete updated.liquidityMarketCap; }
+      else if (isFinitePos(updates.liquiditySOL) && updates.liquiditySOL !== e.liquiditySOL) {
+        updated.liquiditySOL = updates.liquiditySOL;
+        updated.liquidityMarketCap = e.currentMarketCap ?? e.entryMarketCap;
+      }
+      // when editing avg entry, do not change current mcap automatically
+      let avg = e.entryMarketCap;
+      let size = e.solInvested;
+      if (typeof updates.entryMarketCap === "number" && isFinitePos(updates.entryMarketCap)) avg = updates.entryMarketCap;
       if (typeof updates.solInvested === "number" && isFinite(updates.solInvested)) {
         const delta = updates.solInvested - e.solInvested;
-        if (delta > 0 && s.balance < delta) { alert("Insufficient balance to increase position size."); return s; }
-        updated.solInvested = Math.max(0, updates.solInvested);
+        size = Math.max(0, updates.solInvested);
         newBalance -= delta;
       }
+      if (avg !== e.entryMarketCap || size !== e.solInvested) {
+        updated = appendFill(updated, { side: "adjust", marketCap: avg, sol: size, solReturned: 0, fee: 0, t: Date.now(), ...usdStamp(s) });
+      }
       const entries = [...s.entries]; entries[idx] = updated;
       return { ...s, balance: newBalance, entries };
     });
+    if (ok) setEditingId(null);
+  }
+
+  // Sold entries keep their numbers; only how they are filed for the breakdown can change
+  function relabelEntry(id: string, strategy: string, tags: string[]) {
+    commit(`Relabeled ${entryName(id)}`, s => {
+      const idx = s.entries.findIndex(e => e.id === id); if (idx === -1) return s;
+      const updated: Entry = { ...s.entries[idx], strategy };
+      if (tags.length) updated.tags = tags; else delete updated.tags;
+      const entries = [...s.entries]; entries[idx] = updated;
+      return { ...s, entries };
+    });
     setEditingId(null);
   }
 
   // DCA Buy (Buy More)
-  function buyMore(id: string, currentMcap: number, buyAmountSOL: number) {
-    setState(s => {
+  function buyMore(id: string, currentMcap: number, buyAmountSOL: number, fees: FeeSettings, note: string) {
+    const check = (s: AppState) => {
+      const e = s.entries.find(x => x.id === id);
+      return e && availableSOL(s) < buyQuote(e, currentMcap, buyAmountSOL, fees).cost ? "Insufficient available balance (including fees and reserved orders)." : null;
+    };
+    const ok = commitChecked(`Bought ${fmtNum(buyAmountSOL)} SOL of ${entryName(id)} @ ${fmtMcap(currentMcap)}`, check, s => {
       const idx = s.entries.findIndex(e => e.id === id); if (idx === -1) return s;
       const e = s.entries[idx]; if (e.status !== "open") return s;
-      if (s.balance < buyAmountSOL) { alert("Insufficient balance."); return s; }
-      const curInv = e.solInvested;
-      const newAvg = (e.entryMarketCap * curInv + currentMcap * buyAmountSOL) / (curInv + buyAmountSOL);
-      const updated: Entry = {
-        ...e,
-        entryMarketCap: newAvg,
-        currentMarketCap: currentMcap,
-        solInvested: curInv + buyAmountSOL,
-        cumulativeBuySOL: (e.cumulativeBuySOL ?? 0) + buyAmountSOL,
-      };
+      const q = buyQuote(e, currentMcap, buyAmountSOL, fees);
+      const t = Date.now();
+      const updated = withMark(appendFill(e, {
+        side: "buy", marketCap: q.fillMcap, sol: buyAmountSOL, solReturned: 0, fee: q.fee, t, ...usdStamp(s),
+        ...(q.fillMcap !== currentMcap && { quotedMarketCap: currentMcap }),
+        ...(note && { note }),
+      }), currentMcap, t);
       const entries = [...s.entries]; entries[idx] = updated;
-      return { ...s, balance: s.balance - buyAmountSOL, entries };
+      return afterMarketMove({ ...s, balance: s.balance - q.cost, entries }, idx);
     });
-    setBuyMoreId(null);
+    if (ok) setBuyMoreId(null);
   }
 
   // DCA Sell (Partial sell)
-  function partialSell(id: string, sellMcap: number, sellAmountSOL: number) {
-    setState(s => {
+  function partialSell(id: string, sellMcap: number, sellAmountSOL: number, fees: FeeSettings, note: string) {
+    const e = state.entries.find(x => x.id === id);
+    const value = e ? sellAmountSOL * (sellMcap / e.entryMarketCap) : sellAmountSOL;
+    const check = (s: AppState) => {
+      const e = s.entries.find(x => x.id === id);
+      if (!e || e.status !== "open") return null;
+      if (sellAmountSOL <= 0 || sellAmountSOL > e.solInvested) return "Sell amount must be > 0 and ≤ invested.";
+      return s.balance + sellQuote(e, sellMcap, sellAmountSOL, fees).net < 0 ? "Fees exceed the sale proceeds and your balance." : null;
+    };
+    const ok = commitChecked(`Sold ${fmtNum(Number(value.toFixed(4)))} SOL of ${entryName(id)} @ ${fmtMcap(sellMcap)}`, check, s => {
       const idx = s.entries.findIndex(e => e.id === id); if (idx === -1) return s;
       const e = s.entries[idx]; if (e.status !== "open") return s;
-      if (sellAmountSOL <= 0 || sellAmountSOL > e.solInvested) { alert("Sell amount must be > 0 and ≤ invested."); return s; }
-      const multiplier = sellMcap / e.entryMarketCap;
-      const returned = sellAmountSOL * multiplier;
-      const realized = returned - sellAmountSOL;
-      const remaining = e.solInvested - sellAmountSOL;
-
-      let updated: Entry = {
-        ...e,
-        currentMarketCap: sellMcap,
-        solInvested: remaining,
-        realizedPnl: (e.realizedPnl ?? 0) + realized,
-        cumulativeSellAmount: (e.cumulativeSellAmount ?? 0) + sellAmountSOL,
-        cumulativeSellReturnedSOL: (e.cumulativeSellReturnedSOL ?? 0) + returned,
-        sellMarketCap: sellMcap,
-      };
+      const q = sellQuote(e, sellMcap, sellAmountSOL, fees);
+      const t = Date.now();
+      const updated = withMark(appendFill(e, {
+        side: "sell", marketCap: q.fillMcap, sol: q.basis, solReturned: q.gross, fee: q.fee, t, ...usdStamp(s),
+        ...(q.fillMcap !== sellMcap && { quotedMarketCap: sellMcap }),
+        ...(note && { note }),
+      }), sellMcap, t);
+      const entries = [...s.entries]; entries[idx] = updated;
+      return afterMarketMove({ ...s, balance: s.balance + q.net, entries }, idx);
+    });
+    if (ok) setSellingId(null);
+  }
 
-      if (remaining <= 0.0000001) {
-        // Close position
-        const pnl = updated.realizedPnl ?? 0;
-        const totalBuys = updated.cumulativeBuySOL ?? 0;
-        updated = {
-          ...updated,
-          status: "sold",
-          solReturned: updated.cumulativeSellReturnedSOL,
-          pnl,
-          pnlPercent: totalBuys > 0 ? (pnl / totalBuys) * 100 : 0,
-          soldAt: new Date().toISOString(),
-          solInvested: 0,
-        };
-      }
+  function placeLimitOrder(data: { entryId?: string; name: string; strategy?: string; tags?: string[]; limitMarketCap: number; sol: number; fees: FeeSettings }) {
+    const reserved = data.sol + tradeFee(data.sol, data.fees);
+    const check = (s: AppState) => availableSOL(s) < reserved ? "Insufficient available balance to reserve for this order." : null;
+    const ok = commitChecked(`Placed limit buy ${fmtNum(data.sol)} SOL of ${data.name} @ ${fmtMcap(data.limitMarketCap)}`, check, s => {
+      const order: LimitOrder = { id: `o${Date.now().toString(36)}`, ...data, reserved, createdAt: Date.now(), status: "pending" };
+      const next = { ...s, orders: [...(s.orders ?? []), order] };
+      // An order placed at or above the current mcap is marketable: fill it now
+      const idx = data.entryId ? next.entries.findIndex(e => e.id === data.entryId) : -1;
+      return idx === -1 ? next : afterMarketMove(next, idx);
+    });
+    if (ok) setLimitOpen(false);
+  }
 
-      const entries = [...s.entries]; entries[idx] = updated;
-      return { ...s, balance: s.balance + returned, entries };
+  function cancelLimitOrder(id: string) {
+    const o = state.orders?.find(x => x.id === id);
+    commit(`Cancelled limit buy${o ? ` ${fmtNum(o.sol)} SOL of ${o.name} @ ${fmtMcap(o.limitMarketCap)}` : ""}`, s => {
+      if (!s.orders?.some(x => x.id === id && x.status === "pending")) return s;
+      return { ...s, orders: s.orders.map(x => x.id === id ? { ...x, status: "cancelled" as const, closedAt: Date.now() } : x) };
+    });
+  }
+
+  // Market cap update for a token we hold no position in yet
+  function updateOrderMcap(id: string, mcap: number) {
+    const o = state.orders?.find(x => x.id === id);
+    commit(`Set ${o?.name ?? "order"} mcap to ${fmtMcap(mcap)}`, s => {
+      const order = s.orders?.find(x => x.id === id);
+      if (!order || order.status !== "pending") return s;
+      if (mcap > order.limitMarketCap) {
+        return { ...s, orders: s.orders!.map(x => x.id === id ? { ...x, lastMarketCap: mcap } : x) };
+      }
+      const t = Date.now();
+      const released = { ...s, orders: s.orders!.map(x => x.id === id ? { ...x, lastMarketCap: mcap, status: "filled" as const, closedAt: t } : x) };
+      return openPosition(released, { name: order.name, strategy: order.strategy || UNASSIGNED_STRATEGY, tags: order.tags, entryMarketCap: mcap, solInvested: order.sol, fees: order.fees, order: order.id });
     });
-    setSellingId(null);
   }
 
-  function adjustBalance(delta: number) {
-    setState(s => {
+  function adjustBalance(delta: number, note: string) {
+    if (delta === 0) return alert("Enter a non-zero amount.");
+    const check = (s: AppState) =>
+      s.balance + delta < 0 ? "Balance cannot go below 0."
+      : s.balance + delta < reservedSOL(s) ? "Cancel pending limit orders first: their reserve can't be withdrawn."
+      : null;
+    const ok = commitChecked(delta >= 0 ? `Deposited ${fmtNum(delta)} SOL` : `Withdrew ${fmtNum(-delta)} SOL`, check, s => {
       const next = s.balance + delta;
-      if (next < 0) { alert("Balance cannot go below 0."); return s; }
-      return { ...s, balance: next };
+      const flow: CashFlow = { id: `c${Date.now().toString(36)}`, t: Date.now(), amount: delta, ...(note.trim() ? { note: note.trim() } : {}), ...usdStamp(s) };
+      return { ...s, balance: next, cashFlows: [...(s.cashFlows ?? []), flow] };
     });
+    if (!ok) return;
     setBalanceDelta("");
+    setBalanceNote("");
     setBalanceModalOpen(false);
   }
 
-  function resetAll() {
-    try { localStorage.removeItem(STORAGE_KEY); } catch {}
-    setState({ startingBalance: null, balance: 0, entries: [], nextId: 1 });
+  async function resetAll() {
+    if (state.startingBalance !== null) {
+      const session: ArchivedSession = {
+        id: newPortfolioId(),
+        portfolioId,
+        portfolioName: portfolio.name,
+        startedAt: sessionStart(state),
+        endedAt: Date.now(),
+        version: SCHEMA_VERSION,
+        state,
+      };
+      try {
+        await backend.write([{ store: "archive", put: archiveKey(session), value: session }]);
+      } catch {
+        alert("Could not archive this session (storage full?). Nothing was reset; export a backup first.");
+        return;
+      }
+    }
+    try { localStorage.removeItem(undoKey(portfolioId)); } catch { /* undo just survives the reset */ }
+    setTimeline({ present: { startingBalance: null, balance: 0, entries: [], nextId: 1 }, past: [], future: [] });
+  }
+
+  function exportBackup() {
+    downloadFile(`sol-paper-trader-backup-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(makeBackup(state), null, 2), "application/json");
   }
 
+  async function importBackup() {
+    const file = await pickFile("application/json,.json");
+    if (!file) return;
+    const result = parseBackup(await file.text());
+    setRestore(result.ok ? { fileName: file.name, state: result.state, fromVersion: result.fromVersion } : { fileName: file.name, errors: result.errors });
+  }
+
+  function setFees(fees: FeeSettings, costMethod: CostMethod) {
+    commit(`Set fees to ${fmtFees(fees)}, ${COST_METHOD_LABELS[costMethod]}`, s => ({ ...s, fees, costMethod }));
+    setFeesOpen(false);
+  }
+
+  function entryName(id: string) { return state.entries.find(e => e.id === id)?.name ?? `#${id}`; }
+
   // ── Forms state ───────────────────────────────────────────────────────────
-  const [formNew, setFormNew] = useState({ name: "", entryMarketCap: "", solInvested: "" });
-  const [formEdit, setFormEdit] = useState({ name: "", entryMarketCap: "", solInvested: "" });
-  const [formSell, setFormSell] = useState({ sellMarketCap: "", sellAmountValue: "" });
-  const [formBuyMore, setFormBuyMore] = useState({ currentMcap: "", buyAmount: "" });
+  const [formNew, setFormNew] = useState<EntryFormValues>({ name: "", mint: "", ticker: "", notes: "", strategy: "", tags: "", thesis: "", supply: "", entryMarketCap: "", solInvested: "", liquiditySOL: "", ...NO_FEE_OVERRIDE });
+  const [formEdit, setFormEdit] = useState<EntryFormValues>({ name: "", mint: "", ticker: "", notes: "", strategy: "", tags: "", thesis: "", supply: "", entryMarketCap: "", solInvested: "", liquiditySOL: "", ...NO_FEE_OVERRIDE });
+  const [formSell, setFormSell] = useState({ sellMarketCap: "", sellAmountValue: "", note: "", ...NO_FEE_OVERRIDE });
+  const [formBuyMore, setFormBuyMore] = useState({ currentMcap: "", buyAmount: "", note: "", ...NO_FEE_OVERRIDE });
 
   // ───────────────────────────────────────────────────────────────────────────
   // Render
   // ───────────────────────────────────────────────────────────────────────────
 
+  const restoreModal = restore && (
+    "errors" in restore ? (
+      <Modal onClose={() => setRestore(null)} title="Backup can't be restored">
+        <p className="text-sm text-slate-300 mb-2">{restore.fileName} has {restore.errors.length} problem{restore.errors.length === 1 ? "" : "s"}:</p>
+        <ul className="max-h-[50vh] overflow-auto text-xs font-mono text-red-300 space-y-1 bg-slate-950/60 border border-slate-800 rounded-xl p-3">
+          {restore.errors.map((err, i) => <li key={i}>{err}</li>)}
+        </ul>
+        <div className="mt-4 flex justify-end">
+          <button onClick={() => setRestore(null)} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Close</button>
+        </div>
+      </Modal>
+    ) : (
+      <Modal onClose={() => setRestore(null)} title="Restore Backup?">
+        <p className="text-slate-300 mb-2">Replaces the current session with <span className="font-semibold">{restore.fileName}</span>.</p>
+        <div className="text-sm text-slate-400 mb-4 space-y-1">
+          <div>Balance: {fmtSOL(restore.state.balance)} • Entries: {restore.state.entries.length} • Graph points: {restore.state.history?.length ?? 0}</div>
+          {restore.fromVersion < SCHEMA_VERSION && <div>Upgraded from schema v{restore.fromVersion} to v{SCHEMA_VERSION}.</div>}
+        </div>
+        <div className="flex items-center justify-end gap-2">
+          <button onClick={() => setRestore(null)} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
+          <button onClick={() => { const next = restore.state; commit(`Restored ${restore.fileName}`, () => next); setRestore(null); }} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
+            <FileUp className="w-4 h-4" /> Restore
+          </button>
+        </div>
+      </Modal>
+    )
+  );
+
   if (state.startingBalance === null) {
     return (
       <div className="min-h-screen bg-slate-950 text-slate-100 flex items-center justify-center p-6">
@@ -322,10 +2518,19 @@ useEffect(() => {
           <div className="flex items-center gap-3 mb-4">
             <Wallet className="w-6 h-6" />
             <h1 className="text-xl font-semibold">Set Starting Balance</h1>
+            <div className="ml-auto">{switcher}</div>
           </div>
           <p className="text-sm text-slate-300 mb-4">Runs entirely in your browser. You can DCA buy/sell; data persists locally.</p>
           <StartingBalanceForm onSet={(n) => setStartingBalance(n)} />
+          <button onClick={importBackup} className="mt-3 w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">
+            <FileUp className="w-4 h-4" /> Restore from backup
+          </button>
+          <button onClick={() => setSessionsOpen(true)} className="mt-2 w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">
+            <Archive className="w-4 h-4" /> Past sessions
+          </button>
         </div>
+        {restoreModal}
+        {sessionsOpen && <PastSessionsModal backend={backend} onClose={() => setSessionsOpen(false)} />}
       </div>
     );
   }
@@ -333,6 +2538,31 @@ useEffect(() => {
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 p-6">
       <div className="max-w-5xl mx-auto space-y-6">
+        {syncNotes && (
+          <div className="rounded-2xl border border-sky-700 bg-sky-950/40 px-4 py-3 text-sm text-sky-200 flex items-start gap-3">
+            <ul className="flex-1 space-y-1">{syncNotes.map((n, i) => <li key={i}>{n}</li>)}</ul>
+            <button onClick={() => setSyncNotes(null)} className="p-1 rounded-lg hover:bg-sky-900/60" title="Dismiss"><X className="w-4 h-4" /></button>
+          </div>
+        )}
+        {backend.kind === "memory" && (
+          <div className="rounded-2xl border border-amber-600 bg-amber-950/40 px-4 py-3 text-sm text-amber-200">
+            <span className="font-semibold">Not saved.</span> This browser won't open IndexedDB (private mode?), so this session only lives in this tab. Export a backup before closing it.
+          </div>
+        )}
+        {storageError !== null && (
+          <div className="rounded-2xl border border-amber-600 bg-amber-950/40 px-4 py-3 text-sm text-amber-200 flex flex-wrap items-center gap-3">
+            <div className="flex-1 min-w-[16rem]">
+              <span className="font-semibold">Not saved.</span> The browser refused to store this portfolio (storage full?) since {new Date(storageError).toLocaleTimeString()}. Changes since then are lost if you reload. Export a backup, or lower the graph history cap.
+            </div>
+            <button onClick={exportBackup} className="inline-flex items-center gap-2 px-3 py-1.5 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">
+              <FileDown className="w-4 h-4" /> Backup
+            </button>
+            <button onClick={() => setGraphOpen(true)} className="inline-flex items-center gap-2 px-3 py-1.5 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">
+              <LineChart className="w-4 h-4" /> History retention
+            </button>
+          </div>
+        )}
+
         {/* Header */}
         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
           <div className="flex items-center gap-3">
@@ -341,31 +2571,89 @@ useEffect(() => {
               <h1 className="text-2xl font-semibold">SOL Paper Trading (DCA enabled)</h1>
               <p className="text-slate-400 text-sm">PnL from market cap changes. DCA buy/sell. Local autosave.</p>
             </div>
+            {switcher}
           </div>
           <div className="flex flex-wrap items-center gap-2">
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setTimeline(undoTimeline)}
+                disabled={timeline.past.length === 0}
+                className="p-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5 disabled:opacity-40 disabled:hover:translate-y-0"
+                title={timeline.past.length ? `Undo: ${timeline.past[timeline.past.length - 1].label} (Ctrl+Z)` : "Nothing to undo"}
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setTimeline(redoTimeline)}
+                disabled={timeline.future.length === 0}
+                className="p-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5 disabled:opacity-40 disabled:hover:translate-y-0"
+                title={timeline.future.length ? `Redo: ${timeline.future[0].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+              >
+                <Redo2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex rounded-xl border border-slate-700 overflow-hidden text-xs" title={state.usdRate ? `1 SOL = ${fmtUSD(state.usdRate)}` : "Set a SOL/USD rate to show USD"}>
+              {(["SOL", "USD"] as const).map(c => (
+                <button
+                  key={c}
+                  onClick={() => state.usdRate || c === "SOL" ? setCurrency(c) : setUsdOpen(true)}
+                  className={"px-2.5 py-2 " + (money.currency === c ? "bg-indigo-600 text-white" : "bg-slate-800 text-slate-300")}
+                >
+                  {c}
+                </button>
+              ))}
+            </div>
             <SummaryCard
               label="Balance"
-              value={fmtSOL(state.balance)}
+              value={money.fmt(state.balance)}
               icon={<Wallet className="w-4 h-4" />}
               clickable
               onClick={() => setBalanceModalOpen(true)}
             />
-            <SummaryCard label="Open Invested" value={fmtSOL(totals.investedOpen)} icon={<DollarSign className="w-4 h-4" />} />
-            <SummaryCard label="Realized P/L" value={fmtSOL(totals.realized)} icon={<DollarSign className="w-4 h-4" />} />
+            {reservedSOL(state) > 0 && (
+              <SummaryCard label="Available • Reserved" value={`${money.fmt(availableSOL(state))} • ${money.fmt(reservedSOL(state))}`} icon={<Clock className="w-4 h-4" />} />
+            )}
+            <SummaryCard label="Open Invested" value={money.fmt(totals.investedOpen)} icon={<DollarSign className="w-4 h-4" />} />
+            <SummaryCard label="Realized P/L" value={fmtRealized(money, soldEntries, totals.realized)} icon={<DollarSign className="w-4 h-4" />} />
+            <SummaryCard label="P/L ex. Deposits • TWR" value={`${money.fmt(capital.tradingPnl)} • ${capital.twr >= 0 ? "+" : ""}${capital.twr.toFixed(2)}%`} icon={<DollarSign className="w-4 h-4" />} />
             <SummaryCard label="Win Rate" value={`${winStats.winRate.toFixed(1)}% (${winStats.wins}/${winStats.closed})`} icon={<DollarSign className="w-4 h-4" />} />
             <SummaryCard
   label="Avg Returns (closed)"
-  value={`${avgReturns.avgPct.toFixed(2)}% • ${fmtSOL(avgReturns.avgAbs)}`}
+  value={`${avgReturns.avgPct.toFixed(2)}% • ${money.fmt(avgReturns.avgAbs)}`}
   icon={<DollarSign className="w-4 h-4" />}
 />
+            {excursionStats.trades > 0 && (
+              <>
+                <SummaryCard
+                  label="Avg MFE • MAE (closed)"
+                  value={`${excursionStats.avgMfePct >= 0 ? "+" : ""}${excursionStats.avgMfePct.toFixed(1)}% • ${excursionStats.avgMaePct.toFixed(1)}%`}
+                  icon={<LineChart className="w-4 h-4" />}
+                />
+                <SummaryCard
+                  label="Left on Table (closed)"
+                  value={`${money.fmt(excursionStats.leftOnTableSOL)} • captured ${(excursionStats.captureRatio * 100).toFixed(0)}% of MFE`}
+                  icon={<Target className="w-4 h-4" />}
+                />
+                {excursionStats.loserMaePct < 0 && (
+                  <SummaryCard
+                    label="Losers: avg MAE • avg exit"
+                    value={`${excursionStats.loserMaePct.toFixed(1)}% • ${excursionStats.loserClosePct.toFixed(1)}%`}
+                    icon={<LineChart className="w-4 h-4" />}
+                  />
+                )}
+              </>
+            )}
           </div>
         </div>
 
         {/* Actions */}
         <div className="flex flex-wrap items-center gap-2">
-          <button onClick={() => { setFormNew({ name: "", entryMarketCap: "", solInvested: "" }); setShowNew(true); }} className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 hover:brightness-110 font-medium shadow">
+          <button onClick={() => { setFormNew({ name: "", mint: "", ticker: "", notes: "", strategy: "", tags: "", thesis: "", supply: "", entryMarketCap: "", solInvested: "", liquiditySOL: "", ...NO_FEE_OVERRIDE }); setShowNew(true); }} className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 hover:brightness-110 font-medium shadow">
             <Plus className="w-4 h-4" /> New Entry
           </button>
+          <button onClick={() => setLimitOpen(true)} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" title="Buy when the market cap drops to a level">
+            <Clock className="w-4 h-4" /> Limit Buy
+          </button>
           <button onClick={() => setConfirmReset(true)} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-800 hover:bg-slate-700 transition-transform duration-150 hover:-translate-y-0.5 border border-slate-700 text-slate-200">
             <RotateCcw className="w-4 h-4" /> Reset
           </button>
@@ -376,30 +2664,116 @@ useEffect(() => {
 >
   <LineChart className="w-4 h-4" /> Graph
 </button>
+          <button onClick={exportBackup} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" title="Download the whole session as versioned JSON">
+            <FileDown className="w-4 h-4" /> Backup
+          </button>
+          <button onClick={importBackup} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" title="Load a backup file">
+            <FileUp className="w-4 h-4" /> Restore
+          </button>
+          <button onClick={() => setAnalyticsOpen(true)} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" title="Profit factor, expectancy, streaks, drawdown, ROI">
+            <BarChart3 className="w-4 h-4" /> Analytics
+          </button>
+          <button onClick={() => setCsvOpen(true)} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" title="Download trades, fills and graph history as CSV">
+            <FileSpreadsheet className="w-4 h-4" /> CSV
+          </button>
+          <button onClick={() => setSessionsOpen(true)} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" title="Compare sessions archived on reset">
+            <Archive className="w-4 h-4" /> Past sessions
+          </button>
+          <button onClick={() => setFeesOpen(true)} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" title="Default fees charged on every buy and sell">
+            <Settings className="w-4 h-4" /> Fees: {fmtFees(defaultFees)}
+          </button>
+          <button onClick={() => setFeedOpen(true)} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" title="Refresh open positions with a mint from a market data provider">
+            <Radio className={`w-4 h-4 ${provider ? "text-green-400" : ""}`} /> Feed: {provider ? `${provider.label} • ${feedSettings.intervalSec}s` : "off"}
+          </button>
+          <button onClick={() => setUsdOpen(true)} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" title="SOL/USD rate: manual, mock or from a file">
+            <DollarSign className="w-4 h-4" /> {state.usdRate ? `SOL ${fmtUSD(state.usdRate)}` : "SOL/USD"}
+          </button>
           <button onClick={() => setShowActiveOnly(v => !v)} className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl border transition-transform duration-150 hover:-translate-y-0.5  " style={{ borderColor: showActiveOnly ? "#22c55e" : "#334155", background: showActiveOnly ? "#052e16" : "#0f172a" }}>
             {showActiveOnly ? "Showing Active Only" : "Show Active Only"}
           </button>
+          <label className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-slate-900 border border-slate-700 text-sm focus-within:ring-2 focus-within:ring-indigo-500">
+            <Search className="w-4 h-4 text-slate-400" />
+            <input className="w-40 bg-transparent outline-none" placeholder="Search journals…" value={search} onChange={(e) => setSearch(e.target.value)} />
+          </label>
+          {strategies.length > 0 && (
+            <select value={strategyFilter} onChange={(e) => setStrategyFilter(e.target.value)} className="px-3 py-2 rounded-2xl bg-slate-900 border border-slate-700 text-sm" title="Show one strategy">
+              <option value="">All strategies</option>
+              {strategies.map(x => <option key={x} value={x}>{x}</option>)}
+            </select>
+          )}
+          {tags.length > 0 && (
+            <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className="px-3 py-2 rounded-2xl bg-slate-900 border border-slate-700 text-sm" title="Show one tag">
+              <option value="">All tags</option>
+              {tags.map(x => <option key={x} value={x}>#{x}</option>)}
+            </select>
+          )}
         </div>
 
+        {/* Pending limit orders */}
+        {(state.orders ?? []).some(o => o.status === "pending") && (
+          <section className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
+            <div className="text-sm font-semibold mb-2">Pending limit buys</div>
+            <div className="space-y-2">
+              {state.orders!.filter(o => o.status === "pending").map(o => {
+                const entry = o.entryId ? state.entries.find(e => e.id === o.entryId) : undefined;
+                const seen = entry ? entry.currentMarketCap ?? entry.entryMarketCap : o.lastMarketCap;
+                return (
+                  <div key={o.id} className="flex flex-wrap items-center gap-2 text-sm">
+                    <div className="flex-1 min-w-[12rem]">
+                      <span className="font-medium">{o.name}</span>
+                      <span className="text-slate-400"> • {fmtNum(o.sol)} SOL @ ≤ {fmtNum(o.limitMarketCap)}</span>
+                      <span className="text-slate-500 text-xs"> • reserved {o.reserved.toFixed(4)}{seen ? ` • last ${fmtNum(seen)}` : ""}{entry ? " • adds to position" : " • new position"}</span>
+                    </div>
+                    {!entry && (
+                      <>
+                        <input
+                          inputMode="decimal"
+                          className="w-32 rounded-xl bg-slate-900 border border-slate-700 px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500"
+                          placeholder="current mcap"
+                          value={orderMcaps[o.id] ?? ""}
+                          onChange={(e) => setOrderMcaps(m => ({ ...m, [o.id]: e.target.value }))}
+                        />
+                        <button onClick={() => { const n = Number(orderMcaps[o.id]); if (!isFinitePos(n)) return alert("Enter a positive number."); updateOrderMcap(o.id, n); setOrderMcaps(m => ({ ...m, [o.id]: "" })); }} className="px-3 py-1 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">
+                          Update
+                        </button>
+                      </>
+                    )}
+                    <button onClick={() => cancelLimitOrder(o.id)} className="px-3 py-1 rounded-xl bg-slate-800 border border-slate-700 text-red-300 transition-transform duration-150 hover:-translate-y-0.5">
+                      Cancel
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
         {/* Entries List */}
         <section className="grid grid-cols-1 lg:grid-cols-2 gap-4">
           {entriesForList.length === 0 ? (
             <div className="col-span-full text-center text-slate-400 border border-dashed border-slate-800 rounded-2xl p-10">
-              {showActiveOnly ? "No active positions." : "No entries yet. Click New Entry to buy your first position."}
+              {strategyFilter || tagFilter || search.trim() ? "No entries match the filters." : showActiveOnly ? "No active positions." : "No entries yet. Click New Entry to buy your first position."}
             </div>
           ) : (
             entriesForList.map((e) => (
               <EntryCard
                 key={e.id}
                 entry={e}
-                onEdit={() => { setEditingId(e.id); setFormEdit({ name: e.name, entryMarketCap: String(e.entryMarketCap), solInvested: String(e.solInvested), }); }}
+                onEdit={() => { setEditingId(e.id); setFormEdit({ name: e.name, mint: e.mint ?? "", ticker: e.ticker ?? "", notes: e.notes ?? "", strategy: e.strategy, tags: (e.tags ?? []).join(", "), thesis: e.journal?.thesis ?? "", supply: e.supply ? String(e.supply) : "", entryMarketCap: String(e.entryMarketCap), solInvested: String(e.solInvested), liquiditySOL: e.liquiditySOL ? String(e.liquiditySOL) : "", ...NO_FEE_OVERRIDE }); }}
                 onSell={() => {
   setSellingId(e.id);
-  setFormSell({ sellMarketCap: e.currentMarketCap ? String(e.currentMarketCap) : "", sellAmountValue: "" });
+  setFormSell({ sellMarketCap: e.currentMarketCap ? String(e.currentMarketCap) : "", sellAmountValue: "", note: "", ...NO_FEE_OVERRIDE });
 }}
-                onBuyMore={() => { setBuyMoreId(e.id); setFormBuyMore({ currentMcap: e.currentMarketCap ? String(e.currentMarketCap) : "", buyAmount: "" }); }}
+                onBuyMore={() => { setBuyMoreId(e.id); setFormBuyMore({ currentMcap: e.currentMarketCap ? String(e.currentMarketCap) : "", buyAmount: "", note: "", ...NO_FEE_OVERRIDE }); }}
                 onPreview={() => setPreviewEntry(e)}
+                onFills={() => setFillsId(e.id)}
+                onJournal={() => setJournalId(e.id)}
+                onExits={() => setExitsId(e.id)}
                 onEditMcap={() => { setMcapEditId(e.id); setMcapEditValue(String(e.currentMarketCap ?? e.entryMarketCap)); }}
+                feed={provider && e.mint && e.status === "open" ? feedStatus[e.mint] ?? { failures: 0 } : undefined}
+                links={links}
+                onEditLinks={() => setLinksOpen(true)}
+                money={money}
               />
             ))
           )}
@@ -411,9 +2785,12 @@ useEffect(() => {
       {graphOpen && (
   <GraphModal
     onClose={() => setGraphOpen(false)}
-    series={state.history ?? []}
+    {...graphValues}
+    trades={state.entries.flatMap(e => e.fills.map(f => ({ t: f.t, side: f.side, label: `${f.side === "adjust" ? "Edit" : f.side === "buy" ? "Buy" : "Sell"} ${e.name} • ${fmtNum(f.side === "sell" ? f.solReturned : f.sol)} SOL @ ${fmtMcap(f.quotedMarketCap ?? f.marketCap)}` })))}
     onAddPoint={() => pushHistoryPoint()}
     onReset={() => setState(s => ({ ...s, history: [] }))}
+    retention={state.retention ?? DEFAULT_RETENTION}
+    onRetention={setRetention}
   />
 )}
 
@@ -428,36 +2805,67 @@ useEffect(() => {
           <EntryForm
             mode="new"
             balance={state.balance}
+            openEntries={openEntries}
+            strategies={strategies}
+            tags={tags}
+            fees={defaultFees}
             values={formNew}
             onChange={setFormNew}
             onSubmit={() => {
               const name = formNew.name.trim();
               const mc = Number(formNew.entryMarketCap);
               const sol = Number(formNew.solInvested);
+              const fees = resolveFees(defaultFees, formNew);
+              const liq = formNew.liquiditySOL.trim() ? Number(formNew.liquiditySOL) : undefined;
               if (!name) return alert("Please enter a name.");
               if (!isFinitePos(mc)) return alert("Market cap must be a positive number.");
               if (!isFinitePos(sol)) return alert("SOL invested must be a positive number.");
-              addEntry({ name, entryMarketCap: mc, solInvested: sol });
+              if (!fees) return alert("Fees must be ≥ 0 (swap fee below 100%).");
+              if (liq !== undefined && !isFinitePos(liq)) return alert("Pool liquidity must be a positive number (or blank).");
+              const meta = entryMeta(formNew);
+              if (!meta) return;
+              addEntry({ name, ...meta, thesis: formNew.thesis.trim() || undefined, entryMarketCap: mc, solInvested: sol, fees, liquiditySOL: liq });
             }}
           />
         </Modal>
       )}
 
-      {editingId && (
+      {editingId && state.entries.find(e => e.id === editingId)?.status === "sold" && (
+        <Modal onClose={() => setEditingId(null)} title={`Edit Labels #${editingId}`}>
+          <div className="space-y-4">
+            <StrategyFields strategy={formEdit.strategy} tags={formEdit.tags} strategies={strategies} known={tags} onChange={(v) => setFormEdit({ ...formEdit, ...v })} />
+            <div className="flex items-center justify-end gap-2">
+              <button onClick={() => setEditingId(null)} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
+              <button onClick={() => { const strategy = formEdit.strategy.trim(); if (!strategy) return alert("Please enter a strategy."); relabelEntry(editingId!, strategy, parseTags(formEdit.tags)); }} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
+                <Save className="w-4 h-4" /> Save
+              </button>
+            </div>
+          </div>
+        </Modal>
+      )}
+      {editingId && state.entries.find(e => e.id === editingId)?.status === "open" && (
         <Modal onClose={() => setEditingId(null)} title={`Edit Entry #${editingId}`}>
           <EntryForm
             mode="edit"
             balance={state.balance}
+            openEntries={openEntries}
+            strategies={strategies}
+            tags={tags}
+            selfId={editingId}
             values={formEdit}
             onChange={setFormEdit}
             onSubmit={() => {
               const name = formEdit.name.trim();
               const mc = Number(formEdit.entryMarketCap);
               const sol = Number(formEdit.solInvested);
+              const liq = formEdit.liquiditySOL.trim() ? Number(formEdit.liquiditySOL) : null;
               if (!name) return alert("Please enter a name.");
               if (!isFinitePos(mc)) return alert("Market cap must be a positive number.");
               if (!isFinite(sol) || sol < 0) return alert("SOL invested must be ≥ 0.");
-              editEntry(editingId!, { name, entryMarketCap: mc, solInvested: sol });
+              if (liq !== null && !isFinitePos(liq)) return alert("Pool liquidity must be a positive number (or blank).");
+              const meta = entryMeta(formEdit);
+              if (!meta) return;
+              editEntry(editingId!, { name, mint: meta.mint ?? null, ticker: meta.ticker ?? "", notes: meta.notes ?? "", strategy: meta.strategy, tags: meta.tags, thesis: formEdit.thesis.trim(), supply: meta.supply ?? null, entryMarketCap: mc, solInvested: sol, liquiditySOL: liq });
             }}
           />
         </Modal>
@@ -468,21 +2876,28 @@ useEffect(() => {
           <div className="space-y-4">
             <label className="block">
               <span className="text-sm text-slate-300">Current Market Cap</span>
-              <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 20000" value={formBuyMore.currentMcap} onChange={(e) => setFormBuyMore({ ...formBuyMore, currentMcap: e.target.value })} />
+              <McapInput className="w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 20000" supply={state.entries.find(e => e.id === buyMoreId)?.supply} value={formBuyMore.currentMcap} onChange={(v) => setFormBuyMore({ ...formBuyMore, currentMcap: v })} />
             </label>
             <label className="block">
               <span className="text-sm text-slate-300">Buy Amount (SOL)</span>
               <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 0.5" value={formBuyMore.buyAmount} onChange={(e) => setFormBuyMore({ ...formBuyMore, buyAmount: e.target.value })} />
             </label>
+            <FeeOverrideFields defaults={defaultFees} value={formBuyMore} onChange={(o) => setFormBuyMore({ ...formBuyMore, ...o })} />
+            <label className="block">
+              <span className="text-sm text-slate-300">Note (optional)</span>
+              <input className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="why add here?" value={formBuyMore.note} onChange={(e) => setFormBuyMore({ ...formBuyMore, note: e.target.value })} />
+            </label>
             {/* Preview new average */}
-            <AvgPreview entry={state.entries.find(e => e.id === buyMoreId)!} mcap={Number(formBuyMore.currentMcap)} amount={Number(formBuyMore.buyAmount)} />
+            <AvgPreview entry={state.entries.find(e => e.id === buyMoreId)!} mcap={Number(formBuyMore.currentMcap)} amount={Number(formBuyMore.buyAmount)} fees={resolveFees(defaultFees, formBuyMore)} />
             <div className="flex items-center justify-end gap-2">
               <button onClick={() => setBuyMoreId(null)} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
               <button onClick={() => {
                 const m = Number(formBuyMore.currentMcap); const a = Number(formBuyMore.buyAmount);
+                const fees = resolveFees(defaultFees, formBuyMore);
                 if (!isFinitePos(m)) return alert("Current market cap must be a positive number.");
                 if (!isFinitePos(a)) return alert("Buy amount must be a positive number.");
-                buyMore(buyMoreId!, m, a);
+                if (!fees) return alert("Fees must be ≥ 0 (swap fee below 100%).");
+                buyMore(buyMoreId!, m, a, fees, formBuyMore.note.trim());
               }} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
                 <Save className="w-4 h-4" /> Confirm Buy
               </button>
@@ -502,12 +2917,12 @@ useEffect(() => {
       <div className="space-y-4">
         <label className="block">
           <span className="text-sm text-slate-300">Current New Market Cap</span>
-          <input
-            inputMode="decimal"
-            className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500"
+          <McapInput
+            className="w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500"
             placeholder="e.g., 40000"
+            supply={entry.supply}
             value={formSell.sellMarketCap}
-            onChange={(e) => setFormSell({ ...formSell, sellMarketCap: e.target.value })}
+            onChange={(v) => setFormSell({ ...formSell, sellMarketCap: v })}
           />
         </label>
 
@@ -533,7 +2948,14 @@ useEffect(() => {
           )}
         </label>
 
-        <SellPreview entry={entry} mcap={mcapNum} amountValue={Number(formSell.sellAmountValue)} />
+        <FeeOverrideFields defaults={defaultFees} value={formSell} onChange={(o) => setFormSell({ ...formSell, ...o })} />
+
+        <label className="block">
+          <span className="text-sm text-slate-300">Note (optional)</span>
+          <input className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="why sell here?" value={formSell.note} onChange={(e) => setFormSell({ ...formSell, note: e.target.value })} />
+        </label>
+
+        <SellPreview entry={entry} mcap={mcapNum} amountValue={Number(formSell.sellAmountValue)} fees={resolveFees(defaultFees, formSell)} />
 
         <div className="flex flex-wrap items-center justify-end gap-2">
           <button
@@ -551,13 +2973,14 @@ useEffect(() => {
             onClick={() => {
               const m = Number(formSell.sellMarketCap);
               const val = Number(formSell.sellAmountValue);
+              const fees = resolveFees(defaultFees, formSell);
               if (!isFinite(m) || m <= 0) return alert("Market cap must be a positive number.");
               if (!isFinite(val) || val <= 0) return alert("Sell amount must be a positive number.");
+              if (!fees) return alert("Fees must be ≥ 0 (swap fee below 100%).");
               const mult = m / entry.entryMarketCap;
               const baseToSell = val / mult; // convert value-SOL back to base SOL
               if (baseToSell > entry.solInvested + 1e-12) return alert("Sell amount exceeds position.");
-              updateCurrentMcap(sellingId!, m);
-              partialSell(sellingId!, m, baseToSell);
+              partialSell(sellingId!, m, baseToSell, fees, formSell.note.trim());
             }}
             className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium"
           >
@@ -570,16 +2993,40 @@ useEffect(() => {
 })()}
 
       {balanceModalOpen && (
-        <Modal onClose={() => setBalanceModalOpen(false)} title="Adjust Balance">
+        <Modal onClose={() => setBalanceModalOpen(false)} title="Deposit / Withdraw">
           <div className="space-y-4">
             <label className="block">
               <span className="text-sm text-slate-300">Add/Remove (SOL)</span>
               <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 1 (add) or -0.5 (remove)" value={balanceDelta} onChange={(e) => setBalanceDelta(e.target.value)} />
             </label>
-            <div className="text-xs text-slate-400">Current: {fmtSOL(state.balance)}</div>
+            <label className="block">
+              <span className="text-sm text-slate-300">Note (optional)</span>
+              <input className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., weekly top-up" value={balanceNote} onChange={(e) => setBalanceNote(e.target.value)} />
+            </label>
+            <div className="text-xs text-slate-400">
+              Current: {fmtSOL(state.balance)} • Starting: {fmtSOL(state.startingBalance ?? 0)} • Net deposits: {fmtSOL(capital.netDeposits)}
+            </div>
+            {(state.cashFlows ?? []).length > 0 && (
+              <div className="max-h-48 overflow-auto rounded-xl border border-slate-800">
+                <table className="w-full text-xs">
+                  <thead className="text-slate-400">
+                    <tr className="text-left"><th className="px-2 py-1">When</th><th className="px-2 py-1 text-right">Amount</th><th className="px-2 py-1">Note</th></tr>
+                  </thead>
+                  <tbody>
+                    {[...state.cashFlows!].reverse().map(f => (
+                      <tr key={f.id} className="border-t border-slate-800">
+                        <td className="px-2 py-1 whitespace-nowrap">{new Date(f.t).toLocaleString()}</td>
+                        <td className={`px-2 py-1 text-right ${f.amount >= 0 ? "text-green-400" : "text-red-400"}`}>{f.amount >= 0 ? "+" : ""}{f.amount.toFixed(4)}</td>
+                        <td className="px-2 py-1 text-slate-300">{f.note ?? ""}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
             <div className="flex items-center justify-end gap-2">
               <button onClick={() => setBalanceModalOpen(false)} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
-              <button onClick={() => { const d = Number(balanceDelta); if (!isFinite(d)) return alert("Enter a valid number."); adjustBalance(d); }} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
+              <button onClick={() => { const d = Number(balanceDelta); if (!isFinite(d)) return alert("Enter a valid number."); adjustBalance(d, balanceNote); }} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
                 <Save className="w-4 h-4" /> Apply
               </button>
             </div>
@@ -594,12 +3041,12 @@ useEffect(() => {
             <div className="space-y-4">
               <label className="block">
                 <span className="text-sm text-slate-300">Current Market Cap</span>
-                <input
-                  inputMode="decimal"
-                  className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500"
+                <McapInput
+                  className="w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500"
                   placeholder="e.g., 20000"
+                  supply={entry.supply}
                   value={mcapEditValue}
-                  onChange={(e) => setMcapEditValue(e.target.value)}
+                  onChange={setMcapEditValue}
                 />
               </label>
               <div className="flex items-center justify-end gap-2">
@@ -613,13 +3060,76 @@ useEffect(() => {
         );
       })()}
 
+      {linksOpen && <LinksModal links={links} onSave={(l) => { setLinks(l); setLinksOpen(false); }} onClose={() => setLinksOpen(false)} />}
+
+      {analyticsOpen && <AnalyticsModal state={state} onClose={() => setAnalyticsOpen(false)} />}
+
+      {feedOpen && <FeedSettingsModal feed={feedSettings} onSave={setFeed} onClose={() => setFeedOpen(false)} />}
+      {usdOpen && <UsdSettingsModal settings={usdSettings} rate={state.usdRate} rates={state.usdRates ?? []} onSave={setUsd} onClose={() => setUsdOpen(false)} />}
+
+      {limitOpen && (
+        <LimitOrderModal
+          openEntries={openEntries}
+          strategies={strategies}
+          tags={tags}
+          available={availableSOL(state)}
+          defaultFees={defaultFees}
+          onPlace={placeLimitOrder}
+          onClose={() => setLimitOpen(false)}
+        />
+      )}
+
+      {exitsId && (() => {
+        const entry = state.entries.find(e => e.id === exitsId);
+        return entry ? <ExitRulesModal entry={entry} onSave={(rules) => setExitRules(entry.id, rules)} onClose={() => setExitsId(null)} /> : null;
+      })()}
+
+      {journalId && (() => {
+        const entry = state.entries.find(e => e.id === journalId);
+        return entry ? <JournalModal entry={entry} backend={backend} pid={portfolioId} onSave={(...args) => saveJournal(entry.id, ...args)} onClose={() => setJournalId(null)} /> : null;
+      })()}
+
+      {fillsId && (() => {
+        const entry = state.entries.find(e => e.id === fillsId);
+        return entry ? <FillsModal entry={entry} onClose={() => setFillsId(null)} /> : null;
+      })()}
+
       {previewEntry && (
-        <ExportPreview entry={previewEntry} onClose={() => setPreviewEntry(null)} />
+        <ExportPreview entry={previewEntry} money={money} onClose={() => setPreviewEntry(null)} />
       )}
 
+      {restoreModal}
+
+      {feesOpen && <FeeSettingsModal fees={defaultFees} costMethod={state.costMethod ?? "average"} onSave={setFees} onClose={() => setFeesOpen(false)} />}
+
+      {sessionsOpen && <PastSessionsModal backend={backend} current={{ name: portfolio.name, state }} onClose={() => setSessionsOpen(false)} />}
+
+      {csvOpen && (() => {
+        const day = new Date().toISOString().slice(0, 10);
+        const exports = [
+          { label: "Closed trades", count: soldEntries.length, file: `closed-trades-${day}.csv`, csv: () => closedTradesCsv(state.entries, state.usdRate ?? null) },
+          { label: "Open positions", count: openEntries.length, file: `open-positions-${day}.csv`, csv: () => openPositionsCsv(state.entries, state.usdRate ?? null) },
+          { label: "Fills", count: state.entries.reduce((n, e) => n + e.fills.length, 0), file: `fills-${day}.csv`, csv: () => fillsCsv(state.entries) },
+          { label: "Equity history", count: state.history?.length ?? 0, file: `equity-history-${day}.csv`, csv: () => historyCsv(state.history ?? []) },
+        ];
+        return (
+          <Modal onClose={() => setCsvOpen(false)} title="Export CSV">
+            <div className="space-y-2">
+              {exports.map(x => (
+                <button key={x.label} onClick={() => downloadFile(x.file, x.csv(), "text/csv;charset=utf-8")} className="w-full flex items-center justify-between px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">
+                  <span className="inline-flex items-center gap-2"><Download className="w-4 h-4" /> {x.label}</span>
+                  <span className="text-xs text-slate-400">{x.count} rows</span>
+                </button>
+              ))}
+            </div>
+            <div className="mt-3 text-xs text-slate-400">Timestamps are ISO 8601 (UTC). Amounts are in SOL, except the *_usd columns: sol_usd is the SOL/USD rate, the others are USD at the rate recorded with each fill or graph point (the current rate for open value and where none was recorded). They are blank without a rate.</div>
+          </Modal>
+        );
+      })()}
+
       {confirmReset && (
         <Modal onClose={() => setConfirmReset(false)} title="Reset All Data?">
-          <p className="text-slate-300 mb-4">Clears balance, entries, and starting balance. Also removes saved session.</p>
+          <p className="text-slate-300 mb-4">Clears balance, entries, and starting balance of this portfolio. The finished session is archived under Past sessions. Other portfolios are untouched.</p>
           <div className="flex items-center justify-end gap-2">
             <button onClick={() => setConfirmReset(false)} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
             <button onClick={resetAll} className="px-4 py-2 rounded-xl bg-red-600 hover:bg-red-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">Reset</button>
@@ -634,18 +3144,61 @@ useEffect(() => {
 // UI Bits
 // ────────────────────────────────────────────────────────────────────────────────
 
+type GraphTrade = { t: number; side: Fill["side"]; label: string };
+
+const GRAPH_RANGES = [
+  { key: "1h", label: "1h", ms: 3_600_000 },
+  { key: "24h", label: "24h", ms: 86_400_000 },
+  { key: "7d", label: "7d", ms: 7 * 86_400_000 },
+  { key: "all", label: "All", ms: Infinity },
+] as const;
+
+const GRAPH_COLORS = { balance: "#60a5fa", openValue: "#34d399", total: "#e2e8f0", capital: "#c084fc" };
+
+function fmtGraphTime(t: number, spanMs: number) {
+  const d = new Date(t);
+  if (spanMs <= 36 * 3_600_000) return d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return d.toLocaleDateString([], { month: "short", day: "numeric" }) + (spanMs <= 8 * 86_400_000 ? " " + d.toLocaleTimeString([], { hour: "2-digit" }) : "");
+}
+
 function GraphModal({
   onClose,
   series,
+  trades,
+  startingBalance,
+  flows,
+  unit,
   onAddPoint,
   onReset,
+  retention,
+  onRetention,
 }: {
   onClose: () => void;
   series: HistoryPoint[];
+  startingBalance: number;
+  flows: CashFlow[];
+  unit: Currency; // what series, startingBalance and flows are in
+  trades: GraphTrade[];
   onAddPoint: () => void;
   onReset: () => void;
+  retention: RetentionSettings;
+  onRetention: (r: RetentionSettings) => void;
 }) {
-  const w = 680, h = 260, pad = 28;
+  const h = 300, padL = 52, padR = 12, padT = 12, padB = 28;
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [w, setW] = useState(680);
+  const [range, setRange] = useState<(typeof GRAPH_RANGES)[number]["key"]>("all");
+  const [zoom, setZoom] = useState<[number, number] | null>(null); // drag-selected time window
+  const [drag, setDrag] = useState<{ x0: number; x1: number } | null>(null);
+  const [hoverX, setHoverX] = useState<number | null>(null);
+
+  useEffect(() => {
+    const el = boxRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(([e]) => setW(Math.max(320, Math.floor(e.contentRect.width))));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [series.length > 0]); // eslint-disable-line react-hooks/exhaustive-deps
 
   if (!series || series.length === 0) {
     return (
@@ -660,20 +3213,68 @@ function GraphModal({
     );
   }
 
-  const tmin = series[0].t;
-  const tmax = series[series.length - 1].t || series[0].t + 1;
-  const vmin = Math.min(...series.flatMap(p => [p.balance, p.openValue]));
-  const vmax = Math.max(...series.flatMap(p => [p.balance, p.openValue]));
-  const x = (t: number) => pad + ((t - tmin) / (tmax - tmin || 1)) * (w - 2 * pad);
-  const y = (v: number) => h - pad - ((v - vmin) / (vmax - vmin || 1)) * (h - 2 * pad);
-  const path = (vals: (p: HistoryPoint) => number) =>
-    series.map((p, i) => `${i ? "L" : "M"} ${x(p.t)} ${y(vals(p))}`).join(" ");
+  const last = series[series.length - 1].t;
+  const preset = GRAPH_RANGES.find(r => r.key === range)!;
+  const [t0, t1] = zoom ?? [preset.ms === Infinity ? series[0].t : last - preset.ms, last];
+  const visible = series.filter(p => p.t >= t0 && p.t <= t1);
+  const span = Math.max(t1 - t0, 1);
+
+  // Capital put in as of t. Drawdown is measured on equity minus that, so a
+  // withdrawal isn't a loss; the running peak covers the whole series so a
+  // range that starts mid-drawdown still shows it.
+  const capitalAt = (t: number) => startingBalance + netFlows(flows, t);
+  let peak = -Infinity;
+  const peaks = new Map(series.map(p => { peak = Math.max(peak, p.balance + p.openValue - capitalAt(p.t)); return [p.t, peak + capitalAt(p.t)]; }));
+
+  const vals = visible.flatMap(p => [p.balance, p.openValue, p.balance + p.openValue, peaks.get(p.t)!, capitalAt(p.t)]);
+  const vmin = Math.min(...vals), vmax = Math.max(...vals);
+  const x = (t: number) => padL + ((t - t0) / span) * (w - padL - padR);
+  const tAt = (px: number) => t0 + ((px - padL) / (w - padL - padR)) * span;
+  const y = (v: number) => h - padB - ((v - vmin) / (vmax - vmin || 1)) * (h - padT - padB);
+  const path = (val: (p: HistoryPoint) => number) => visible.map((p, i) => `${i ? "L" : "M"} ${x(p.t)} ${y(val(p))}`).join(" ");
+  const ddArea = visible.length > 1
+    ? path(p => peaks.get(p.t)!) + " " + [...visible].reverse().map(p => `L ${x(p.t)} ${y(p.balance + p.openValue)}`).join(" ") + " Z"
+    : "";
+
+  const hover = hoverX === null || drag ? null : visible.reduce<HistoryPoint | null>((best, p) => !best || Math.abs(x(p.t) - hoverX) < Math.abs(x(best.t) - hoverX) ? p : best, null);
+  const tradesInView = trades.filter(tr => tr.t >= t0 && tr.t <= t1);
+  const flowsInView = flows.filter(f => f.t >= t0 && f.t <= t1);
+  const amt = (n: number) => unit === "USD" ? fmtUSD(n) : `${n.toFixed(6)} SOL`;
+
+  function svgX(ev: React.MouseEvent<SVGSVGElement>) {
+    const r = ev.currentTarget.getBoundingClientRect();
+    return Math.min(w - padR, Math.max(padL, ev.clientX - r.left));
+  }
+
+  function endDrag() {
+    if (drag && Math.abs(drag.x1 - drag.x0) > 6) {
+      const a = tAt(Math.min(drag.x0, drag.x1)), b = tAt(Math.max(drag.x0, drag.x1));
+      setZoom([a, b]);
+    }
+    setDrag(null);
+  }
 
   return (
-    <Modal title="Balance & Open Value" onClose={onClose}>
-      <div className="flex items-center justify-between mb-3">
-        <div className="text-xs text-slate-400">
-          Points: <span className="text-slate-200 font-medium">{series.length}</span>
+    <Modal title="Balance & Open Value" onClose={onClose} wide>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-1">
+          {GRAPH_RANGES.map(r => (
+            <button
+              key={r.key}
+              onClick={() => { setRange(r.key); setZoom(null); }}
+              className={"px-2.5 py-1 rounded-lg border text-xs " + (range === r.key && !zoom ? "border-indigo-500 bg-indigo-950/50 text-indigo-200" : "border-slate-700 bg-slate-800 text-slate-300")}
+            >
+              {r.label}
+            </button>
+          ))}
+          {zoom && (
+            <button onClick={() => setZoom(null)} className="ml-1 px-2.5 py-1 rounded-lg border border-amber-600 bg-amber-950/40 text-xs text-amber-200">
+              Reset zoom
+            </button>
+          )}
+          <span className="ml-2 text-xs text-slate-400">
+            Points: <span className="text-slate-200 font-medium">{visible.length}</span>/{series.length} • drag to zoom
+          </span>
         </div>
         <div className="flex gap-2">
           <button
@@ -693,87 +3294,464 @@ function GraphModal({
         </div>
       </div>
 
-      <div className="w-full overflow-x-auto">
-        <svg width={w} height={h} className="rounded-xl border border-slate-800 bg-slate-950">
-        <div className="mt-3 text-xs text-slate-400 flex gap-6 justify-center">
-  <div className="flex items-center gap-2">
-    <span className="inline-block w-3 h-3 rounded" style={{ background: "#60a5fa" }} />
-    Balance
-  </div>
-  <div className="flex items-center gap-2">
-    <span className="inline-block w-3 h-3 rounded" style={{ background: "#34d399" }} />
-    Open Value
-  </div>
-</div>
-        {/* axes */}
-<line x1={pad} y1={h - pad} x2={w - pad} y2={h - pad} stroke="#334155" strokeWidth="1" />
-<line x1={pad} y1={pad} x2={pad} y2={h - pad} stroke="#334155" strokeWidth="1" />
-
-{/* X-axis ticks (time) */}
-{series.map((p, i) => (
-  i % Math.ceil(series.length / 5) === 0 && (
-    <text
-      key={`xtick-${i}`}
-      x={x(p.t)}
-      y={h - pad + 15}
-      fontSize="10"
-      fill="#94a3b8"
-      textAnchor="middle"
-    >
-      {new Date(p.t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
-    </text>
-  )
-))}
-
-{/* Y-axis ticks (values) */}
-{[0, 0.25, 0.5, 0.75, 1].map((frac, i) => {
-  const val = vmin + (vmax - vmin) * frac;
+      <div ref={boxRef} className="relative w-full select-none">
+        {visible.length === 0 ? (
+          <div className="h-[300px] flex items-center justify-center rounded-xl border border-slate-800 bg-slate-950 text-sm text-slate-400">No points in this range.</div>
+        ) : (
+          <svg
+            width={w}
+            height={h}
+            className="rounded-xl border border-slate-800 bg-slate-950 cursor-crosshair"
+            onMouseDown={(ev) => { const px = svgX(ev); setDrag({ x0: px, x1: px }); }}
+            onMouseMove={(ev) => { const px = svgX(ev); setHoverX(px); if (drag) setDrag({ ...drag, x1: px }); }}
+            onMouseUp={endDrag}
+            onMouseLeave={() => { setHoverX(null); endDrag(); }}
+          >
+            {/* axes */}
+            <line x1={padL} y1={h - padB} x2={w - padR} y2={h - padB} stroke="#334155" strokeWidth="1" />
+            <line x1={padL} y1={padT} x2={padL} y2={h - padB} stroke="#334155" strokeWidth="1" />
+
+            {/* X-axis ticks (time) */}
+            {[0, 0.2, 0.4, 0.6, 0.8, 1].map(frac => (
+              <text key={`x${frac}`} x={padL + frac * (w - padL - padR)} y={h - padB + 16} fontSize="10" fill="#94a3b8" textAnchor={frac === 0 ? "start" : frac === 1 ? "end" : "middle"}>
+                {fmtGraphTime(t0 + frac * span, span)}
+              </text>
+            ))}
+
+            {/* Y-axis ticks (values) */}
+            {[0, 0.25, 0.5, 0.75, 1].map(frac => {
+              const val = vmin + (vmax - vmin) * frac;
+              return (
+                <g key={`y${frac}`}>
+                  <line x1={padL} y1={y(val)} x2={w - padR} y2={y(val)} stroke="#1e293b" strokeWidth="1" />
+                  <text x={padL - 6} y={y(val) + 3} fontSize="10" fill="#94a3b8" textAnchor="end">{val.toFixed(2)}</text>
+                </g>
+              );
+            })}
+
+            {/* drawdown: gap between running peak and total equity */}
+            {ddArea && <path d={ddArea} fill="#ef4444" fillOpacity="0.15" stroke="none" />}
+
+            {/* lines */}
+            <path d={path(p => p.balance)} fill="none" stroke={GRAPH_COLORS.balance} strokeWidth="1.5" />
+            <path d={path(p => p.openValue)} fill="none" stroke={GRAPH_COLORS.openValue} strokeWidth="1.5" />
+            <path d={path(p => p.balance + p.openValue)} fill="none" stroke={GRAPH_COLORS.total} strokeWidth="2.25" />
+            {flows.length > 0 && <path d={path(p => capitalAt(p.t))} fill="none" stroke={GRAPH_COLORS.capital} strokeWidth="1.25" strokeDasharray="5 4" />}
+
+            {/* deposits / withdrawals */}
+            {flowsInView.map(f => (
+              <g key={f.id}>
+                <line x1={x(f.t)} y1={padT} x2={x(f.t)} y2={h - padB} stroke={GRAPH_COLORS.capital} strokeOpacity="0.35" />
+                <circle cx={x(f.t)} cy={padT + 5} r="4" fill={GRAPH_COLORS.capital}>
+                  <title>{`${f.amount >= 0 ? "Deposit" : "Withdrawal"} ${amt(Math.abs(f.amount))}${f.note ? ` • ${f.note}` : ""}`}</title>
+                </circle>
+              </g>
+            ))}
+
+            {/* trades */}
+            {tradesInView.map((tr, i) => {
+              const cx = x(tr.t), by = h - padB;
+              const d = tr.side === "sell" ? `M${cx - 4},${by - 9} L${cx + 4},${by - 9} L${cx},${by - 2} Z` : `M${cx - 4},${by - 2} L${cx + 4},${by - 2} L${cx},${by - 9} Z`;
+              return <path key={i} d={d} fill={tr.side === "sell" ? "#f59e0b" : tr.side === "buy" ? "#22c55e" : "#94a3b8"}><title>{tr.label}</title></path>;
+            })}
+
+            {/* zoom selection */}
+            {drag && <rect x={Math.min(drag.x0, drag.x1)} y={padT} width={Math.abs(drag.x1 - drag.x0)} height={h - padT - padB} fill="#6366f1" fillOpacity="0.2" />}
+
+            {/* crosshair */}
+            {hover && (
+              <>
+                <line x1={x(hover.t)} y1={padT} x2={x(hover.t)} y2={h - padB} stroke="#64748b" strokeDasharray="3 3" />
+                <circle cx={x(hover.t)} cy={y(hover.balance)} r="3" fill={GRAPH_COLORS.balance} />
+                <circle cx={x(hover.t)} cy={y(hover.openValue)} r="3" fill={GRAPH_COLORS.openValue} />
+                <circle cx={x(hover.t)} cy={y(hover.balance + hover.openValue)} r="3.5" fill={GRAPH_COLORS.total} />
+              </>
+            )}
+          </svg>
+        )}
+
+        {hover && (
+          <div
+            className="pointer-events-none absolute top-2 rounded-lg border border-slate-700 bg-slate-900/95 px-3 py-2 text-xs shadow-lg"
+            style={x(hover.t) > w / 2 ? { right: w - x(hover.t) + 10 } : { left: x(hover.t) + 10 }}
+          >
+            <div className="text-slate-400">{new Date(hover.t).toLocaleString()}</div>
+            <div style={{ color: GRAPH_COLORS.total }}>Total: {amt(hover.balance + hover.openValue)}</div>
+            <div style={{ color: GRAPH_COLORS.balance }}>Balance: {amt(hover.balance)}</div>
+            <div style={{ color: GRAPH_COLORS.openValue }}>Open value: {amt(hover.openValue)}</div>
+            {flows.length > 0 && <div style={{ color: GRAPH_COLORS.capital }}>Capital in: {amt(capitalAt(hover.t))}</div>}
+            <div className="text-slate-300">P/L ex. deposits: {amt(hover.balance + hover.openValue - capitalAt(hover.t))}</div>
+            {peaks.get(hover.t)! - (hover.balance + hover.openValue) > 1e-9 && (
+              <div className="text-red-300">Drawdown: {amt(peaks.get(hover.t)! - (hover.balance + hover.openValue))}</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-3 text-xs text-slate-400 flex flex-wrap gap-4">
+        <div className="flex items-center gap-2"><span className="inline-block w-3 h-3 rounded" style={{ background: GRAPH_COLORS.total }} /> Total equity</div>
+        <div className="flex items-center gap-2"><span className="inline-block w-3 h-3 rounded" style={{ background: GRAPH_COLORS.balance }} /> Balance</div>
+        <div className="flex items-center gap-2"><span className="inline-block w-3 h-3 rounded" style={{ background: GRAPH_COLORS.openValue }} /> Open Value</div>
+        {flows.length > 0 && <div className="flex items-center gap-2"><span className="inline-block w-3 h-3 rounded" style={{ background: GRAPH_COLORS.capital }} /> Capital in (deposits)</div>}
+        <div className="flex items-center gap-2"><span className="inline-block w-3 h-3 rounded bg-red-500/30" /> Drawdown</div>
+        <div className="flex items-center gap-2"><span className="text-green-500">▲</span> buy <span className="text-amber-500">▼</span> sell</div>
+      </div>
+
+      <RetentionForm retention={retention} onSave={onRetention} />
+    </Modal>
+  );
+}
+
+
+function RetentionForm({ retention, onSave }: { retention: RetentionSettings; onSave: (r: RetentionSettings) => void }) {
+  const [raw, setRaw] = useState(String(retention.rawHours));
+  const [bucket, setBucket] = useState(String(retention.bucketMinutes));
+  const [max, setMax] = useState(String(retention.maxPoints));
+  const inputCls = "mt-1 w-full rounded-lg bg-slate-900 border border-slate-700 px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500";
+
+  function save() {
+    const r = { rawHours: Number(raw), bucketMinutes: Number(bucket), maxPoints: Math.floor(Number(max)) };
+    if (!isFinite(r.rawHours) || r.rawHours < 0) return alert("Raw window must be ≥ 0 hours.");
+    if (!isFinitePos(r.bucketMinutes)) return alert("Bucket size must be a positive number of minutes.");
+    if (!isFinite(r.maxPoints) || r.maxPoints < 10) return alert("Keep at least 10 points.");
+    onSave(r);
+  }
+
   return (
-    <g key={`ytick-${i}`}>
-      <line
-        x1={pad - 4}
-        y1={y(val)}
-        x2={pad}
-        y2={y(val)}
-        stroke="#334155"
-        strokeWidth="1"
-      />
-      <text
-        x={pad - 6}
-        y={y(val) + 3}
-        fontSize="10"
-        fill="#94a3b8"
-        textAnchor="end"
-      >
-        {val.toFixed(2)}
-      </text>
-    </g>
+    <details className="mt-4 rounded-xl border border-slate-800 p-3 text-sm">
+      <summary className="cursor-pointer text-slate-300">History retention</summary>
+      <p className="mt-2 text-xs text-slate-400">Points from the last raw window are kept as recorded. Older points are merged per bucket into its low and close, and buckets grow until the series fits the cap.</p>
+      <div className="mt-2 grid grid-cols-3 gap-3">
+        <label className="block"><span className="text-xs text-slate-400">Raw window (hours)</span><input inputMode="decimal" className={inputCls} value={raw} onChange={(e) => setRaw(e.target.value)} /></label>
+        <label className="block"><span className="text-xs text-slate-400">Bucket (minutes)</span><input inputMode="decimal" className={inputCls} value={bucket} onChange={(e) => setBucket(e.target.value)} /></label>
+        <label className="block"><span className="text-xs text-slate-400">Max points</span><input inputMode="numeric" className={inputCls} value={max} onChange={(e) => setMax(e.target.value)} /></label>
+      </div>
+      <div className="mt-3 flex justify-end">
+        <button onClick={save} className="inline-flex items-center gap-2 px-3 py-1.5 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">
+          <Save className="w-4 h-4" /> Apply
+        </button>
+      </div>
+    </details>
   );
-})}
-          {/* axes */}
-          <line x1={pad} y1={h - pad} x2={w - pad} y2={h - pad} stroke="#334155" strokeWidth="1" />
-          <line x1={pad} y1={pad} x2={pad} y2={h - pad} stroke="#334155" strokeWidth="1" />
-          {/* lines */}
-          <path d={path(p => p.balance)} fill="none" stroke="#60a5fa" strokeWidth="2" />
-          <path d={path(p => p.openValue)} fill="none" stroke="#34d399" strokeWidth="2" />
-          {/* last dots */}
-          {series.length > 0 && (
-            <>
-              <circle cx={x(series[series.length - 1].t)} cy={y(series[series.length - 1].balance)} r="3" fill="#60a5fa" />
-              <circle cx={x(series[series.length - 1].t)} cy={y(series[series.length - 1].openValue)} r="3" fill="#34d399" />
-            </>
-          )}
-        </svg>
+}
+
+function PortfolioManager({
+  index,
+  onClose,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+}: {
+  index: PortfolioIndex;
+  onClose: () => void;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string, copyFrom?: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [newName, setNewName] = useState("");
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const inputCls = "w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500";
+  const btnCls = "p-2 rounded-lg bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5";
+
+  function create() {
+    const name = newName.trim();
+    if (!name) return alert("Please enter a name.");
+    onCreate(name);
+    setNewName("");
+  }
+
+  return (
+    <Modal title="Portfolios" onClose={onClose}>
+      <div className="space-y-2 max-h-[50vh] overflow-auto">
+        {index.portfolios.map(p => {
+          const draft = names[p.id] ?? p.name;
+          const active = p.id === index.activeId;
+          return (
+            <div key={p.id} className={"flex items-center gap-2 rounded-xl border p-2 " + (active ? "border-indigo-500/60 bg-indigo-950/30" : "border-slate-800")}>
+              <input
+                className={inputCls}
+                value={draft}
+                onChange={(e) => setNames(n => ({ ...n, [p.id]: e.target.value }))}
+                onBlur={() => { const name = draft.trim(); if (name && name !== p.name) onRename(p.id, name); else setNames(n => ({ ...n, [p.id]: p.name })); }}
+                onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+              />
+              {!active && <button onClick={() => onSwitch(p.id)} className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm transition-transform duration-150 hover:-translate-y-0.5">Open</button>}
+              <button onClick={() => onCreate(`${p.name} (copy)`, p.id)} className={btnCls} title="Duplicate">
+                <Copy className="w-4 h-4" />
+              </button>
+              {confirmDelete === p.id ? (
+                <button onClick={() => { onDelete(p.id); setConfirmDelete(null); }} className="px-3 py-2 rounded-lg bg-red-600 hover:bg-red-500 text-sm font-medium">Confirm</button>
+              ) : (
+                <button onClick={() => setConfirmDelete(p.id)} disabled={index.portfolios.length <= 1} className={btnCls + " disabled:opacity-40"} title="Delete portfolio and its data">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-4 flex items-center gap-2">
+        <input className={inputCls} placeholder="New portfolio, e.g. swing DCA" value={newName} onChange={(e) => setNewName(e.target.value)} onKeyDown={(e) => { if (e.key === "Enter") create(); }} />
+        <button onClick={create} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium whitespace-nowrap">
+          <Plus className="w-4 h-4" /> Create
+        </button>
       </div>
+    </Modal>
+  );
+}
+
+const SESSION_COLORS = ["#60a5fa", "#34d399", "#f472b6", "#fbbf24", "#a78bfa", "#f87171", "#22d3ee", "#a3e635"];
+
+function summarizeSession(s: AppState) {
+  const sold = s.entries.filter(e => e.status === "sold");
+  const openValue = s.entries.filter(e => e.status === "open").reduce((sum, e) => sum + positionValue(e), 0);
+  const start = s.startingBalance ?? 0;
+  const final = s.balance + openValue;
+  const capital = start + netFlows(s.cashFlows ?? []);
+  return {
+    start,
+    final,
+    roi: roi(capital, final),
+    realized: sold.reduce((sum, e) => sum + (e.pnl ?? 0), 0),
+    winStats: computeWinStats(sold),
+    avgReturns: computeAvgReturns(sold),
+  };
+}
+
+function fmtDuration(ms: number) {
+  const m = Math.round(ms / 60_000);
+  if (m < 60) return `${m}m`;
+  if (m < 48 * 60) return `${Math.floor(m / 60)}h ${m % 60}m`;
+  return `${Math.floor(m / 1440)}d ${Math.floor((m % 1440) / 60)}h`;
+}
+
+function AnalyticsModal({ state, onClose }: { state: AppState; onClose: () => void }) {
+  const stats = useMemo(() => {
+    const closed = state.entries.filter(e => e.status === "sold").map(e => ({
+      pnl: e.pnl ?? 0,
+      pnlPercent: e.pnlPercent ?? 0,
+      closedAt: e.soldAt ? Date.parse(e.soldAt) : e.fills[e.fills.length - 1].t,
+    }));
+    const c = capitalStats(state);
+    return { ...c, trades: tradeStats(closed), dd: maxDrawdown(tradingEquity(c.series, c.flows)), roi: roi(c.capital, c.equity) };
+  }, [state]);
+  const [groupBy, setGroupBy] = useState<"strategy" | "tag">("strategy");
+  const groups = useMemo(() => groupStats(state.entries, groupBy === "strategy" ? entryStrategy : entryTags), [state.entries, groupBy]);
+  const { trades: t, dd } = stats;
+  const pf = t.profitFactor === null ? "—" : t.profitFactor === Infinity ? "∞" : t.profitFactor.toFixed(2);
+  const clr = (n: number) => n > 0 ? "text-green-400" : n < 0 ? "text-red-400" : "";
 
-      <div className="mt-3 text-xs text-slate-400 flex gap-4">
-        <div className="flex items-center gap-2"><span className="inline-block w-3 h-3 rounded" style={{ background: "#60a5fa" }} /> Balance</div>
-        <div className="flex items-center gap-2"><span className="inline-block w-3 h-3 rounded" style={{ background: "#34d399" }} /> Open Value</div>
+  return (
+    <Modal title="Analytics" onClose={onClose} wide>
+      <div className="space-y-5">
+        <section>
+          <div className="text-sm font-semibold mb-2">Account</div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <KV label="Starting Balance" value={fmtSOL(state.startingBalance ?? 0)} />
+            <KV label="Net Deposits" value={`${fmtSOL(stats.netDeposits)} (${state.cashFlows?.length ?? 0})`} />
+            <KV label="Equity (balance + open)" value={fmtSOL(stats.equity)} />
+            <KV label="P/L ex. Deposits" value={<span className={clr(stats.tradingPnl)}>{fmtSOL(stats.tradingPnl)}</span>} />
+            <KV label="ROI on Capital" value={<span className={clr(stats.roi)}>{stats.roi >= 0 ? "+" : ""}{stats.roi.toFixed(2)}%</span>} />
+            <KV label="Time-Weighted Return" value={<span className={clr(stats.twr)}>{stats.twr >= 0 ? "+" : ""}{stats.twr.toFixed(2)}%</span>} />
+            <KV label="Closed Trades" value={`${t.trades} (${t.wins}W / ${t.losses}L)`} />
+          </div>
+        </section>
+        <section>
+          <div className="text-sm font-semibold mb-2">Closed trades</div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <KV label="Profit Factor" value={pf} />
+            <KV label="Expectancy / Trade" value={<span className={clr(t.expectancy)}>{fmtSOL(t.expectancy)} • {t.expectancyPct.toFixed(2)}%</span>} />
+            <KV label="Avg Win" value={<span className="text-green-400">{fmtSOL(t.avgWin)}</span>} />
+            <KV label="Avg Loss" value={<span className="text-red-400">{fmtSOL(t.avgLoss)}</span>} />
+            <KV label="Largest Win" value={fmtSOL(t.largestWin)} />
+            <KV label="Largest Loss" value={fmtSOL(t.largestLoss)} />
+            <KV label="Longest Win Streak" value={String(t.longestWinStreak)} />
+            <KV label="Longest Loss Streak" value={String(t.longestLossStreak)} />
+          </div>
+        </section>
+        <section>
+          <div className="text-sm font-semibold mb-2">Equity curve</div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <KV label="Max Drawdown" value={<span className={dd.maxDrawdown > 0 ? "text-red-400" : ""}>{fmtSOL(dd.maxDrawdown)} • {dd.maxDrawdownPct.toFixed(2)}%</span>} />
+            <KV label="Peak → Trough" value={dd.peakAt !== null && dd.troughAt !== null ? `${new Date(dd.peakAt).toLocaleString()} → ${new Date(dd.troughAt).toLocaleString()}` : "—"} />
+            <KV label="Recovered" value={dd.troughAt === null ? "—" : dd.recoveredAt === null ? "Not yet" : new Date(dd.recoveredAt).toLocaleString()} />
+            <KV label="Recovery Time" value={dd.recoveryMs === null ? "—" : fmtDuration(dd.recoveryMs)} />
+          </div>
+          <p className="mt-2 text-xs text-slate-500">From the graph history ({state.history?.length ?? 0} points) plus the current equity, with deposits and withdrawals taken out. ROI on capital divides P/L by starting balance plus net deposits; the time-weighted return chains the return between points, so it doesn't depend on when capital moved.</p>
+        </section>
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-semibold">By {groupBy}</div>
+            <div className="flex rounded-xl border border-slate-700 overflow-hidden text-xs">
+              {(["strategy", "tag"] as const).map(g => (
+                <button key={g} onClick={() => setGroupBy(g)} className={"px-3 py-1 " + (groupBy === g ? "bg-indigo-600 text-white" : "bg-slate-900 text-slate-300")}>
+                  {g === "strategy" ? "Strategy" : "Tag"}
+                </button>
+              ))}
+            </div>
+          </div>
+          {groups.length === 0 ? (
+            <div className="text-sm text-slate-400">{groupBy === "tag" ? "No tagged entries yet." : "No entries yet."}</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-400">
+                  <tr>
+                    <th className="py-1 pr-2 text-left">{groupBy === "strategy" ? "Strategy" : "Tag"}</th>
+                    <th className="py-1 pr-2 text-right">Entries (open)</th>
+                    <th className="py-1 pr-2 text-right">Win Rate</th>
+                    <th className="py-1 pr-2 text-right">Avg Return</th>
+                    <th className="py-1 pr-2 text-right">Realized P/L</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map(g => (
+                    <tr key={g.label} className="border-t border-slate-800">
+                      <td className="py-1 pr-2">{groupBy === "tag" ? `#${g.label}` : g.label}</td>
+                      <td className="py-1 pr-2 text-right">{g.entries} ({g.open})</td>
+                      <td className="py-1 pr-2 text-right">{g.winStats.closed ? `${g.winStats.winRate.toFixed(1)}% (${g.winStats.wins}/${g.winStats.closed})` : "—"}</td>
+                      <td className="py-1 pr-2 text-right">{g.winStats.closed ? `${g.avgReturns.avgPct.toFixed(2)}% • ${g.avgReturns.avgAbs.toFixed(4)}` : "—"}</td>
+                      <td className={`py-1 pr-2 text-right ${clr(g.realized)}`}>{fmtSOL(g.realized)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="mt-2 text-xs text-slate-500">Win rate and average return are over closed trades; realized P/L also counts partial sells on open positions.{groupBy === "tag" && " A trade with several tags counts toward each."}</p>
+        </section>
       </div>
     </Modal>
   );
 }
 
+function PastSessionsModal({ backend, current, onClose }: { backend: StorageBackend; current?: { name: string; state: AppState }; onClose: () => void }) {
+  const [sessions, setSessions] = useState<ArchivedSession[]>([]);
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const w = 820, h = 240, pad = 36;
+
+  useEffect(() => {
+    let live = true;
+    loadArchive(backend)
+      .then(list => { if (live) setSessions(list); })
+      .catch(() => alert("Could not read the archived sessions."));
+    return () => { live = false; };
+  }, [backend]);
+
+  function remove(id: string) {
+    const session = sessions.find(s => s.id === id); if (!session) return;
+    backend.write([{ store: "archive", del: archiveKey(session) }])
+      .then(() => setSessions(xs => xs.filter(s => s.id !== id)))
+      .catch(() => alert("Could not delete this session."));
+  }
+
+  const rows = [
+    ...sessions.map(a => ({ id: a.id, label: a.portfolioName, startedAt: a.startedAt, endedAt: a.endedAt as number | null, state: a.state, archived: true })),
+    ...(current && current.state.startingBalance !== null
+      ? [{ id: "current", label: `${current.name} (current)`, startedAt: sessionStart(current.state), endedAt: null, state: current.state, archived: false }]
+      : []),
+  ].map((r, i) => ({ ...r, color: SESSION_COLORS[i % SESSION_COLORS.length], stats: summarizeSession(r.state) }));
+
+  // Equity curves overlaid by elapsed time, as ROI so different bankrolls compare
+  const curves = rows.filter(r => !hidden.has(r.id) && r.stats.start > 0).map(r => ({
+    ...r,
+    pts: (r.state.history ?? []).map(p => ({ dt: p.t - r.startedAt, roi: ((p.balance + p.openValue - netFlows(r.state.cashFlows ?? [], p.t)) / r.stats.start - 1) * 100 })),
+  })).filter(c => c.pts.length > 0);
+  const dtMax = Math.max(1, ...curves.flatMap(c => c.pts.map(p => p.dt)));
+  const rois = curves.flatMap(c => c.pts.map(p => p.roi));
+  const vmin = Math.min(0, ...rois), vmax = Math.max(0, ...rois);
+  const x = (dt: number) => pad + (Math.max(0, dt) / dtMax) * (w - 2 * pad);
+  const y = (v: number) => h - pad - ((v - vmin) / (vmax - vmin || 1)) * (h - 2 * pad);
+  const fmtElapsed = (ms: number) => ms >= 86400000 ? `${(ms / 86400000).toFixed(1)}d` : `${(ms / 3600000).toFixed(1)}h`;
+
+  return (
+    <Modal title="Past sessions" onClose={onClose} wide>
+      {rows.length === 0 ? (
+        <div className="text-slate-300">No archived sessions yet. Resetting a portfolio archives its session here.</div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-slate-400">
+                <tr className="text-left">
+                  <th className="py-1 pr-2"></th>
+                  <th className="py-1 pr-2">Portfolio</th>
+                  <th className="py-1 pr-2">Period</th>
+                  <th className="py-1 pr-2 text-right">Start</th>
+                  <th className="py-1 pr-2 text-right">Final</th>
+                  <th className="py-1 pr-2 text-right">ROI</th>
+                  <th className="py-1 pr-2 text-right">Win rate</th>
+                  <th className="py-1 pr-2 text-right">Avg return</th>
+                  <th className="py-1 pr-2 text-right">Realized</th>
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => (
+                  <tr key={r.id} className="border-t border-slate-800">
+                    <td className="py-1 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={!hidden.has(r.id)}
+                        onChange={() => setHidden(hs => { const n = new Set(hs); if (n.has(r.id)) n.delete(r.id); else n.add(r.id); return n; })}
+                        style={{ accentColor: r.color }}
+                        title="Show on chart"
+                      />
+                    </td>
+                    <td className="py-1 pr-2 font-medium" style={{ color: r.color }}>{r.label}</td>
+                    <td className="py-1 pr-2 whitespace-nowrap">{new Date(r.startedAt).toLocaleDateString()} → {r.endedAt ? new Date(r.endedAt).toLocaleDateString() : "now"}</td>
+                    <td className="py-1 pr-2 text-right">{r.stats.start.toFixed(4)}</td>
+                    <td className="py-1 pr-2 text-right">{r.stats.final.toFixed(4)}</td>
+                    <td className={`py-1 pr-2 text-right ${r.stats.roi >= 0 ? "text-green-400" : "text-red-400"}`}>{r.stats.roi.toFixed(2)}%</td>
+                    <td className="py-1 pr-2 text-right">{r.stats.winStats.winRate.toFixed(1)}% ({r.stats.winStats.wins}/{r.stats.winStats.closed})</td>
+                    <td className="py-1 pr-2 text-right">{r.stats.avgReturns.avgPct.toFixed(2)}% • {r.stats.avgReturns.avgAbs.toFixed(4)}</td>
+                    <td className="py-1 pr-2 text-right">{r.stats.realized.toFixed(4)}</td>
+                    <td className="py-1 text-right">
+                      {r.archived && (
+                        <button onClick={() => remove(r.id)} className="p-1 rounded hover:bg-slate-800" title="Delete archived session">
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 w-full overflow-x-auto">
+            {curves.length === 0 ? (
+              <div className="text-xs text-slate-400">No equity history to plot for the selected sessions.</div>
+            ) : (
+              <svg width={w} height={h} className="rounded-xl border border-slate-800 bg-slate-950">
+                <line x1={pad} y1={h - pad} x2={w - pad} y2={h - pad} stroke="#334155" strokeWidth="1" />
+                <line x1={pad} y1={pad} x2={pad} y2={h - pad} stroke="#334155" strokeWidth="1" />
+                <line x1={pad} y1={y(0)} x2={w - pad} y2={y(0)} stroke="#475569" strokeDasharray="4 4" strokeWidth="1" />
+                {[0, 0.5, 1].map(frac => (
+                  <text key={`y-${frac}`} x={pad - 6} y={y(vmin + (vmax - vmin) * frac) + 3} fontSize="10" fill="#94a3b8" textAnchor="end">
+                    {(vmin + (vmax - vmin) * frac).toFixed(0)}%
+                  </text>
+                ))}
+                {[0, 0.25, 0.5, 0.75, 1].map(frac => (
+                  <text key={`x-${frac}`} x={x(dtMax * frac)} y={h - pad + 15} fontSize="10" fill="#94a3b8" textAnchor="middle">
+                    {fmtElapsed(dtMax * frac)}
+                  </text>
+                ))}
+                {curves.map(c => (
+                  <path key={c.id} d={c.pts.map((p, i) => `${i ? "L" : "M"} ${x(p.dt)} ${y(p.roi)}`).join(" ")} fill="none" stroke={c.color} strokeWidth="2" />
+                ))}
+              </svg>
+            )}
+            <div className="mt-2 text-xs text-slate-400">ROI of total equity (balance + open value) by time since each session started.</div>
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+}
 
 function SummaryCard({ label, value, icon, clickable, onClick }: { label: string; value: string; icon: React.ReactNode; clickable?: boolean; onClick?: () => void }) {
   const cls = "px-3 py-2 rounded-xl bg-slate-900/60 border border-slate-800 text-sm flex items-center gap-2 " + (clickable ? "cursor-pointer transition-transform duration-150 hover:-translate-y-0.5 hover:brightness-110" : "");
@@ -797,6 +3775,13 @@ function EntryCard({
   onPreview,
   onBuyMore,
   onEditMcap,
+  onFills,
+  onExits,
+  onJournal,
+  feed,
+  links,
+  onEditLinks,
+  money,
 }: {
   entry: Entry;
   onEdit: () => void;
@@ -804,6 +3789,13 @@ function EntryCard({
   onPreview: () => void;
   onBuyMore: () => void;
   onEditMcap: () => void;
+  onFills: () => void;
+  onExits: () => void;
+  onJournal: () => void;
+  feed?: FeedStatus; // set while a provider is polling this entry's mint
+  links: TokenLink[];
+  onEditLinks: () => void;
+  money: Money;
 }) {
   const sold = entry.status === "sold";
   const pnlColor = sold
@@ -837,6 +3829,12 @@ function EntryCard({
   const deltaClr = deltaAbsSOL >= 0 ? "text-green-400" : "text-red-400";
   const signAbs = deltaAbsSOL >= 0 ? "+" : "";
   const signPct = deltaPct >= 0 ? "+" : "";
+  const exc = excursion(entry);
+  const lastSellRate = [...entry.fills].reverse().find(f => f.side === "sell")?.usd;
+  const realized = fmtRealized(money, [entry], sold ? entry.pnl ?? 0 : entry.realizedPnl ?? 0);
+  // In USD the realized P/L can differ in sign from the SOL one (the rate moved)
+  const realizedUsd = money.currency === "USD" ? entryUsd(entry, money.rate)?.realized ?? 0 : null;
+  const realizedColor = realizedUsd === null ? pnlColor : realizedUsd > 0 ? "text-green-400" : realizedUsd < 0 ? "text-red-400" : "";
 
   return (
     <div
@@ -848,7 +3846,23 @@ function EntryCard({
       }
     >
       <div className="flex items-center justify-between">
-        <div className="font-semibold text-lg truncate">{entry.name}</div>
+        <div className="min-w-0">
+          <div className="font-semibold text-lg truncate">
+            {entry.name}{entry.ticker && <span className="ml-2 text-sm font-medium text-slate-400">${entry.ticker}</span>}
+          </div>
+          {entry.mint && (
+            <div className="flex items-center gap-1 text-[11px] font-mono text-slate-500">
+              <span title={entry.mint}>{entry.mint.slice(0, 4)}…{entry.mint.slice(-4)}</span>
+              <button onClick={() => navigator.clipboard?.writeText(entry.mint!)} className="p-0.5 rounded hover:bg-slate-800" title="Copy mint address">
+                <Copy className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+          <div className="mt-1 flex flex-wrap gap-1 text-[11px]">
+            <span className="px-2 py-0.5 rounded-full bg-indigo-950 border border-indigo-800 text-indigo-200">{entry.strategy}</span>
+            {entry.tags?.map(t => <span key={t} className="px-2 py-0.5 rounded-full border border-slate-700 text-slate-400">#{t}</span>)}
+          </div>
+        </div>
         <div className="flex items-center gap-2">
           {sold && (
             <button
@@ -870,10 +3884,18 @@ function EntryCard({
           <div className="text-2xl font-extrabold tracking-tight">
             {fmtNum(curMcap)}
           </div>
+          {entry.supply && <div className="text-xs text-slate-400">{fmtPrice(curMcap / entry.supply)} per token</div>}
           <div className={`text-xs ${changeColor}`}>
             {changePct >= 0 ? "+" : ""}
             {changePct.toFixed(2)}% since entry
           </div>
+          {feed && (
+            <div className={`text-[11px] ${feed.error ? "text-amber-300" : "text-slate-500"}`} title={entry.mint}>
+              {feed.error
+                ? `Feed error: ${feed.error}${feed.retryAt ? ` • retry ${new Date(feed.retryAt).toLocaleTimeString()}` : ""}`
+                : feed.ok ? `Live • ${new Date(feed.ok).toLocaleTimeString()}` : "Live • waiting for first quote"}
+            </div>
+          )}
         </div>
         {!sold && (
           <button
@@ -885,9 +3907,11 @@ function EntryCard({
         )}
       </div>
 
+      <Sparkline entry={entry} className="mt-2 w-full h-12" />
+
       {/* Metrics */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3 text-sm">
-        <KV label="Avg Entry Mcap" value={fmtNum(entry.entryMarketCap)} />
+        <KV label={entry.costMethod ? `Avg Entry Mcap • ${COST_METHOD_LABELS[entry.costMethod]}` : "Avg Entry Mcap"} value={entry.supply ? `${fmtNum(entry.entryMarketCap)} • ${fmtPrice(entry.entryMarketCap / entry.supply)}/token` : fmtNum(entry.entryMarketCap)} />
 
         {/* ✅ Open Invested with value + delta */}
         <div className="col-span-2 md:col-span-2">
@@ -895,10 +3919,10 @@ function EntryCard({
             label="Open Invested"
             value={
               <span>
-                {valueNowSOL.toFixed(4)}{" "}
+                {money.currency === "USD" ? money.fmt(valueNowSOL) : valueNowSOL.toFixed(4)}{" "}
                 <span className={deltaClr}>
                   ({signAbs}
-                  {Math.abs(deltaAbsSOL).toFixed(4)}) ({signPct}
+                  {money.currency === "USD" ? money.fmt(Math.abs(deltaAbsSOL)) : Math.abs(deltaAbsSOL).toFixed(4)}) ({signPct}
                   {deltaPct.toFixed(2)}%)
                 </span>
               </span>
@@ -908,10 +3932,10 @@ function EntryCard({
 
         {sold ? (
           <>
-            <KV label="Last Sell Mcap" value={fmtNum(entry.sellMarketCap ?? 0)} />
+            <KV label="Last Sell Mcap" value={entry.supply && entry.sellMarketCap ? `${fmtNum(entry.sellMarketCap)} • ${fmtPrice(entry.sellMarketCap / entry.supply)}/token` : fmtNum(entry.sellMarketCap ?? 0)} />
             <KV
               label="Returned (total)"
-              value={fmtSOL(entry.solReturned ?? 0)}
+              value={money.fmt(entry.solReturned ?? 0, lastSellRate)}
             />
             <KV
               label="% (total)"
@@ -924,31 +3948,94 @@ function EntryCard({
             <KV
               label="P/L (total)"
               value={
-                <span className={pnlColor}>{fmtSOL(entry.pnl ?? 0)}</span>
+                <span className={realizedColor}>{realized}</span>
               }
             />
             <KV
               label="Sold"
               value={entry.soldAt ? new Date(entry.soldAt).toLocaleString() : ""}
             />
+            {(entry.cumulativeFeesSOL ?? 0) > 0 && <KV label="Fees (total)" value={money.fmt(entry.cumulativeFeesSOL ?? 0)} />}
+            {exc && <KV label="MFE • MAE" value={`${exc.mfePct >= 0 ? "+" : ""}${exc.mfePct.toFixed(1)}% • ${exc.maePct.toFixed(1)}%`} />}
+            {exc?.leftSOL !== undefined && <KV label="Left on Table" value={money.fmt(exc.leftSOL)} />}
           </>
         ) : (
           <>
-            <KV label="Realized P/L" value={fmtSOL(entry.realizedPnl ?? 0)} />
+            <KV label="Realized P/L" value={realized} />
             <KV
               label="Buys (SOL)"
               value={fmtSOL(entry.cumulativeBuySOL ?? entry.solInvested)}
             />
+            {(entry.cumulativeFeesSOL ?? 0) > 0 && <KV label="Fees" value={money.fmt(entry.cumulativeFeesSOL ?? 0)} />}
+            {entry.liquiditySOL && <KV label="Pool Liquidity" value={fmtSOL(poolReserveSOL(entry, curMcap) ?? entry.liquiditySOL)} />}
+            {exc && <KV label="MFE • MAE" value={<span title={`Peak ${fmtNum(entry.peakMarketCap!)} (${fmtSOL(exc.mfeSOL)}) • trough ${fmtNum(entry.troughMarketCap!)} (${fmtSOL(exc.maeSOL)})`}>{exc.mfePct >= 0 ? "+" : ""}{exc.mfePct.toFixed(1)}% • {exc.maePct.toFixed(1)}%</span>} />}
           </>
         )}
       </div>
 
+      {entry.notes && <div className="mt-2 text-xs text-slate-400 italic whitespace-pre-wrap">{entry.notes}</div>}
+
+      {/* Token links */}
+      {entry.mint && (
+        <div className="mt-3 flex flex-wrap items-center gap-1.5 text-xs">
+          {links.map(l => (
+            <a key={l.label + l.url} href={tokenUrl(l.url, entry.mint!)} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-slate-700 bg-slate-900 text-slate-300 hover:bg-slate-800">
+              {l.label} <ExternalLink className="w-3 h-3" />
+            </a>
+          ))}
+          <button onClick={onEditLinks} className="p-1 rounded-lg text-slate-500 hover:bg-slate-800" title="Edit explorer / chart links">
+            <Settings className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {/* Exit rules */}
+      {(entry.exitRules?.length ?? 0) > 0 && (
+        <div className="mt-3 flex flex-wrap gap-1.5 text-xs">
+          {entry.exitRules!.map(r => (
+            <span
+              key={r.id}
+              className={"px-2 py-1 rounded-lg border " + (r.firedAt
+                ? "border-emerald-700 bg-emerald-950/50 text-emerald-300"
+                : "border-slate-700 bg-slate-900 text-slate-300")}
+              title={r.firedAt ? `Executed ${new Date(r.firedAt).toLocaleString()}` : `Armed: triggers at ${fmtNum(entry.entryMarketCap * r.multiple)}`}
+            >
+              {r.firedAt ? "✓ " : ""}{ruleLabel(r)} • {r.sellPct >= 100 ? "rest" : `${fmtNum(r.sellPct)}%`}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Buttons */}
       <div className="mt-4 flex flex-wrap gap-2">
+        <button
+          onClick={onFills}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5"
+          title="Show every buy/sell on this position"
+        >
+          <ListOrdered className="w-4 h-4" /> Fills ({entry.fills.length})
+        </button>
+        <button
+          onClick={onJournal}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5"
+          title="Thesis, fill notes, review and screenshots"
+        >
+          <BookOpen className="w-4 h-4" /> Journal
+          {entry.journal?.rating ? <span className="text-amber-400 text-xs">★{entry.journal.rating}</span> : entry.journal?.shots?.length ? <span className="text-xs text-slate-400">{entry.journal.shots.length} img</span> : null}
+        </button>
         {sold ? (
-          <span className="px-3 py-1 rounded-lg bg-slate-800 border border-slate-700 text-slate-300">
-            Sold • locked
-          </span>
+          <>
+            <span className="px-3 py-1 rounded-lg bg-slate-800 border border-slate-700 text-slate-300">
+              Sold • locked
+            </span>
+            <button
+              onClick={onEdit}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5"
+              title="Change the strategy and tags this trade is filed under"
+            >
+              <Pencil className="w-4 h-4" /> Labels
+            </button>
+          </>
         ) : (
           <>
             <button
@@ -963,6 +4050,13 @@ function EntryCard({
             >
               Sell
             </button>
+            <button
+              onClick={onExits}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5"
+              title="Take-profit / stop-loss rules"
+            >
+              <Target className="w-4 h-4" /> TP/SL
+            </button>
             <button
               onClick={onEdit}
               className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5"
@@ -977,6 +4071,287 @@ function EntryCard({
 }
 
 
+function LimitOrderModal({
+  openEntries,
+  strategies,
+  tags,
+  available,
+  defaultFees,
+  onPlace,
+  onClose,
+}: {
+  openEntries: Entry[];
+  strategies: string[];
+  tags: string[];
+  available: number;
+  defaultFees: FeeSettings;
+  onPlace: (o: { entryId?: string; name: string; strategy?: string; tags?: string[]; limitMarketCap: number; sol: number; fees: FeeSettings }) => void;
+  onClose: () => void;
+}) {
+  const [target, setTarget] = useState("new");
+  const [form, setForm] = useState({ name: "", strategy: "", tags: "", limit: "", sol: "", ...NO_FEE_OVERRIDE });
+  const inputCls = "mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500";
+  const fees = resolveFees(defaultFees, form);
+  const sol = Number(form.sol);
+  const reserve = fees && isFinitePos(sol) ? sol + tradeFee(sol, fees) : null;
+
+  function submit() {
+    const entry = openEntries.find(e => e.id === target);
+    const name = entry ? entry.name : form.name.trim();
+    const limit = Number(form.limit);
+    const strategy = form.strategy.trim();
+    const tagList = parseTags(form.tags);
+    if (!name) return alert("Please enter a name.");
+    if (!entry && !strategy) return alert("Please enter a strategy.");
+    if (!isFinitePos(limit)) return alert("Limit market cap must be a positive number.");
+    if (!isFinitePos(sol)) return alert("Buy amount must be a positive number.");
+    if (!fees) return alert("Fees must be ≥ 0 (swap fee below 100%).");
+    onPlace({ entryId: entry?.id, name, ...(!entry && { strategy, ...(tagList.length && { tags: tagList }) }), limitMarketCap: limit, sol, fees });
+  }
+
+  return (
+    <Modal title="Limit Buy" onClose={onClose}>
+      <div className="space-y-4">
+        <div className="text-sm text-slate-300">Available: <span className="font-semibold">{fmtSOL(available)}</span></div>
+        <label className="block"><span className="text-sm text-slate-300">Position</span>
+          <select className={inputCls} value={target} onChange={(e) => setTarget(e.target.value)}>
+            <option value="new">New token…</option>
+            {openEntries.map(e => <option key={e.id} value={e.id}>{e.name} (now {fmtNum(e.currentMarketCap ?? e.entryMarketCap)})</option>)}
+          </select>
+        </label>
+        {target === "new" && (
+          <label className="block"><span className="text-sm text-slate-300">Name</span>
+            <input className={inputCls} placeholder="e.g., DONUT COIN" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </label>
+        )}
+        {target === "new" && <StrategyFields strategy={form.strategy} tags={form.tags} strategies={strategies} known={tags} onChange={(v) => setForm({ ...form, ...v })} />}
+        <label className="block"><span className="text-sm text-slate-300">Buy when market cap is at or below</span>
+          <input inputMode="decimal" className={inputCls} placeholder="e.g., 15000" value={form.limit} onChange={(e) => setForm({ ...form, limit: e.target.value })} />
+        </label>
+        <label className="block"><span className="text-sm text-slate-300">Buy Amount (SOL)</span>
+          <input inputMode="decimal" className={inputCls} placeholder="e.g., 1" value={form.sol} onChange={(e) => setForm({ ...form, sol: e.target.value })} />
+        </label>
+        <FeeOverrideFields defaults={defaultFees} value={form} onChange={(o) => setForm({ ...form, ...o })} />
+        {reserve !== null && (
+          <div className={`text-sm ${reserve > available ? "text-red-400" : "text-slate-300"}`}>
+            Reserves <span className="font-semibold">{fmtSOL(reserve)}</span> (amount + fee) until it fills or is cancelled.
+          </div>
+        )}
+        <div className="flex items-center justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
+          <button onClick={submit} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
+            <Save className="w-4 h-4" /> Place Order
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function ExitRulesModal({ entry, onSave, onClose }: { entry: Entry; onSave: (rules: ExitRule[]) => void; onClose: () => void }) {
+  const [rules, setRules] = useState<ExitRule[]>(entry.exitRules ?? []);
+  const [kind, setKind] = useState<"tp" | "sl">("tp");
+  const [level, setLevel] = useState("");
+  const [pct, setPct] = useState("");
+  const inputCls = "mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500";
+
+  function add() {
+    const lv = Number(level);
+    const sellPct = pct.trim() === "" ? 100 : Number(pct);
+    if (!isFinite(sellPct) || sellPct <= 0 || sellPct > 100) return alert("Sell % must be between 0 and 100.");
+    let multiple: number;
+    if (kind === "tp") {
+      if (!isFinite(lv) || lv <= 1) return alert("Take-profit must be a multiple above 1 (e.g., 3 for 3x).");
+      multiple = lv;
+    } else {
+      if (!isFinite(lv) || lv >= 0 || lv <= -100) return alert("Stop-loss must be a negative % above -100 (e.g., -40).");
+      multiple = 1 + lv / 100;
+    }
+    setRules(rs => [...rs, { id: `r${Date.now().toString(36)}${rs.length}`, kind, multiple, sellPct }]);
+    setLevel(""); setPct("");
+  }
+
+  return (
+    <Modal title={`TP / SL • ${entry.name}`} onClose={onClose}>
+      <div className="space-y-4">
+        <p className="text-sm text-slate-400">
+          Levels are relative to the average entry ({fmtNum(entry.entryMarketCap)}). Rules fire on the first market cap update,
+          buy or sell that crosses them, and sell at that market cap with the portfolio fees.
+        </p>
+        {rules.length === 0 ? (
+          <div className="text-sm text-slate-400 border border-dashed border-slate-800 rounded-xl p-4 text-center">No rules yet.</div>
+        ) : (
+          <div className="space-y-2">
+            {rules.map(r => (
+              <div key={r.id} className="flex items-center justify-between rounded-xl border border-slate-800 px-3 py-2 text-sm">
+                <div>
+                  <span className={r.kind === "tp" ? "text-emerald-300 font-medium" : "text-red-300 font-medium"}>{ruleLabel(r)}</span>
+                  <span className="text-slate-400"> → sell {r.sellPct >= 100 ? "the rest" : `${fmtNum(r.sellPct)}%`} @ {fmtNum(entry.entryMarketCap * r.multiple)}</span>
+                </div>
+                {r.firedAt ? (
+                  <span className="text-xs text-emerald-300">✓ {new Date(r.firedAt).toLocaleString()}</span>
+                ) : (
+                  <button onClick={() => setRules(rs => rs.filter(x => x.id !== r.id))} className="p-1 rounded hover:bg-slate-800" title="Remove rule">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-3 gap-2 items-end">
+          <label className="block"><span className="text-xs text-slate-400">Type</span>
+            <select className={inputCls} value={kind} onChange={(e) => setKind(e.target.value as "tp" | "sl")}>
+              <option value="tp">Take profit</option>
+              <option value="sl">Stop loss</option>
+            </select>
+          </label>
+          <label className="block"><span className="text-xs text-slate-400">{kind === "tp" ? "At (x of avg entry)" : "At (% from avg entry)"}</span>
+            <input inputMode="decimal" className={inputCls} placeholder={kind === "tp" ? "e.g., 3" : "e.g., -40"} value={level} onChange={(e) => setLevel(e.target.value)} />
+          </label>
+          <label className="block"><span className="text-xs text-slate-400">Sell % (blank = rest)</span>
+            <input inputMode="decimal" className={inputCls} placeholder="e.g., 50" value={pct} onChange={(e) => setPct(e.target.value)} />
+          </label>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <button onClick={add} className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">
+            <Plus className="w-4 h-4" /> Add rule
+          </button>
+          <div className="flex items-center gap-2">
+            <button onClick={onClose} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
+            <button onClick={() => onSave(rules)} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
+              <Save className="w-4 h-4" /> Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function FillsModal({ entry, onClose }: { entry: Entry; onClose: () => void }) {
+  // Running realized P/L so each row shows how the total was reached
+  let realized = 0;
+  const rows = entry.fills.map((f, i) => {
+    if (f.side === "sell") realized += f.solReturned - f.sol;
+    realized -= f.fee;
+    return { f, i, realized };
+  });
+  const sideClr = { buy: "text-indigo-300", sell: "text-emerald-300", adjust: "text-amber-300" };
+  const lots = entry.costMethod ? replayLots(entry.fills, entry.costMethod) : [];
+
+  return (
+    <Modal title={`Fills • ${entry.name}`} onClose={onClose}>
+      <div className="max-h-[60vh] overflow-auto">
+        <table className="w-full text-xs">
+          <thead className="text-slate-400">
+            <tr className="text-left">
+              <th className="py-1 pr-2">#</th>
+              <th className="py-1 pr-2">Time</th>
+              <th className="py-1 pr-2">Side</th>
+              <th className="py-1 pr-2 text-right">Mcap</th>
+              <th className="py-1 pr-2 text-right">SOL</th>
+              <th className="py-1 pr-2 text-right">Returned</th>
+              <th className="py-1 pr-2 text-right">Fee</th>
+              <th className="py-1 text-right">Realized</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ f, i, realized }) => (
+              <React.Fragment key={i}>
+              <tr className="border-t border-slate-800">
+                <td className="py-1 pr-2 text-slate-500">{i + 1}</td>
+                <td className="py-1 pr-2 whitespace-nowrap">{new Date(f.t).toLocaleString()}</td>
+                <td className={`py-1 pr-2 font-medium ${sideClr[f.side]}`}>
+                  {f.side}
+                  {f.trigger && (() => { const r = entry.exitRules?.find(x => x.id === f.trigger); return <span className="ml-1 text-[10px] text-slate-400">({r ? ruleLabel(r) : "rule"})</span>; })()}
+                  {f.order && <span className="ml-1 text-[10px] text-slate-400">(limit)</span>}
+                </td>
+                <td className="py-1 pr-2 text-right" title={f.quotedMarketCap ? `Quoted ${fmtNum(f.quotedMarketCap)} (slippage ${((f.marketCap / f.quotedMarketCap - 1) * 100).toFixed(2)}%)` : undefined}>
+                  {fmtNum(f.marketCap)}{f.quotedMarketCap ? <span className="text-amber-300">*</span> : null}
+                </td>
+                <td className="py-1 pr-2 text-right">{f.sol.toFixed(4)}</td>
+                <td className="py-1 pr-2 text-right">{f.side === "sell" ? f.solReturned.toFixed(4) : "—"}</td>
+                <td className="py-1 pr-2 text-right">{f.fee ? f.fee.toFixed(4) : "—"}</td>
+                <td className={`py-1 text-right ${realized > 0 ? "text-green-400" : realized < 0 ? "text-red-400" : ""}`}>{realized.toFixed(4)}</td>
+              </tr>
+              {f.note && <tr><td /><td colSpan={7} className="pb-1 text-slate-400 italic">“{f.note}”</td></tr>}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-3 text-xs text-slate-400">
+        Adjust rows are manual edits: they reset the average entry mcap and open size. Realized includes fees. * = fill moved by pool slippage (hover for the quote).
+      </div>
+      {lots.length > 0 && (
+        <div className="mt-4">
+          <div className="text-sm font-semibold mb-1">Lots • {COST_METHOD_LABELS[entry.costMethod!]}</div>
+          <div className="max-h-[30vh] overflow-auto">
+            <table className="w-full text-xs">
+              <thead className="text-slate-400">
+                <tr className="text-left">
+                  <th className="py-1 pr-2">#</th>
+                  <th className="py-1 pr-2">Bought</th>
+                  <th className="py-1 pr-2 text-right">Mcap</th>
+                  <th className="py-1 pr-2 text-right">SOL</th>
+                  <th className="py-1 pr-2 text-right">Open</th>
+                  <th className="py-1 pr-2 text-right">Returned</th>
+                  <th className="py-1 text-right">Realized</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lots.map((l, i) => (
+                  <tr key={i} className={"border-t border-slate-800 " + (l.openSOL === 0 ? "text-slate-500" : "")}>
+                    <td className="py-1 pr-2">{i + 1}{l.adjusted && <span className="ml-1 text-[10px] text-amber-300">(adjust)</span>}</td>
+                    <td className="py-1 pr-2 whitespace-nowrap">{new Date(l.t).toLocaleString()}</td>
+                    <td className="py-1 pr-2 text-right">{fmtNum(l.marketCap)}</td>
+                    <td className="py-1 pr-2 text-right">{l.boughtSOL.toFixed(4)}</td>
+                    <td className="py-1 pr-2 text-right">{l.openSOL ? l.openSOL.toFixed(4) : `closed ${new Date(l.closedAt!).toLocaleDateString()}`}</td>
+                    <td className="py-1 pr-2 text-right">{l.returnedSOL ? l.returnedSOL.toFixed(4) : "—"}</td>
+                    <td className={`py-1 text-right ${l.realized > 0 ? "text-green-400" : l.realized < 0 ? "text-red-400" : ""}`}>{l.realized.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-2 text-xs text-slate-400">Sells close lots {entry.costMethod === "fifo" ? "oldest" : "newest"} first. A lot's realized P/L includes its buy fee and its share of sell fees.</div>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+// Mcap path of one position on a log scale. ▲ first buy, ● DCA buys, ▼ sells; dashed = avg entry.
+function Sparkline({ entry, className }: { entry: Entry; className?: string }) {
+  const W = 300, H = 48, PAD = 5;
+  const trades = entry.fills.filter(f => f.side !== "adjust").map(f => ({ t: f.t, v: f.quotedMarketCap ?? f.marketCap, side: f.side }));
+  const line = (entry.marks ?? []).map(m => ({ t: m.t, v: m.mcap }));
+  const all = [...line, ...trades];
+  if (line.length < 2) return null;
+
+  const t0 = Math.min(...all.map(p => p.t)), t1 = Math.max(...all.map(p => p.t));
+  const logs = [...all.map(p => Math.log(p.v)), Math.log(entry.entryMarketCap)];
+  const lo = Math.min(...logs), hi = Math.max(...logs);
+  const x = (t: number) => t1 > t0 ? PAD + (t - t0) / (t1 - t0) * (W - 2 * PAD) : W / 2;
+  const y = (v: number) => hi > lo ? H - PAD - (Math.log(v) - lo) / (hi - lo) * (H - 2 * PAD) : H / 2;
+  const last = line[line.length - 1].v;
+  const stroke = last >= entry.entryMarketCap ? "#4ade80" : "#f87171";
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className={className} role="img" aria-label={`${entry.name} market cap history`}>
+      <line x1={PAD} x2={W - PAD} y1={y(entry.entryMarketCap)} y2={y(entry.entryMarketCap)} stroke="#64748b" strokeWidth={0.75} strokeDasharray="3 3" />
+      <polyline points={line.map(p => `${x(p.t)},${y(p.v)}`).join(" ")} fill="none" stroke={stroke} strokeWidth={1.5} strokeLinejoin="round" />
+      {trades.map((p, i) => {
+        const cx = x(p.t), cy = y(p.v);
+        if (p.side === "sell") return <path key={i} d={`M${cx - 3.5},${cy - 3} L${cx + 3.5},${cy - 3} L${cx},${cy + 3.5} Z`} fill="#f59e0b" />;
+        if (i === 0) return <path key={i} d={`M${cx - 3.5},${cy + 3} L${cx + 3.5},${cy + 3} L${cx},${cy - 3.5} Z`} fill="#22c55e" />;
+        return <circle key={i} cx={cx} cy={cy} r={2.5} fill="#818cf8" />;
+      })}
+    </svg>
+  );
+}
+
 function KV({ label, value }: { label: string; value: any }) {
   return (
     <div className="bg-slate-950/40 rounded-xl border border-slate-800 p-3">
@@ -988,11 +4363,11 @@ function KV({ label, value }: { label: string; value: any }) {
   );
 }
 
-function Modal({ title, children, onClose }: { title: string; children: React.ReactNode; onClose: () => void }) {
+function Modal({ title, children, onClose, wide }: { title: string; children: React.ReactNode; onClose: () => void; wide?: boolean }) {
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       <div className="absolute inset-0 bg-black/60" onClick={onClose} />
-      <div className="relative w-full max-w-lg bg-slate-900 border border-slate-800 rounded-2xl p-5 shadow-xl">
+      <div className={"relative w-full bg-slate-900 border border-slate-800 rounded-2xl p-5 shadow-xl " + (wide ? "max-w-4xl" : "max-w-lg")}>
         <div className="flex items-center justify-between mb-3">
           <h2 className="text-lg font-semibold">{title}</h2>
           <button onClick={onClose} className="p-2 rounded-lg hover:bg-slate-800 transition-transform duration-150 hover:-translate-y-0.5" title="Close">
@@ -1005,8 +4380,107 @@ function Modal({ title, children, onClose }: { title: string; children: React.Re
   );
 }
 
-function EntryForm({ mode, balance, values, onChange, onSubmit }: { mode: "new" | "edit"; balance: number; values: { name: string; entryMarketCap: string; solInvested: string }; onChange: (v: { name: string; entryMarketCap: string; solInvested: string }) => void; onSubmit: () => void; }) {
-  const canAfford = (() => { const sol = Number(values.solInvested); if (!isFinite(sol)) return false; return sol <= balance || mode === "edit"; })();
+type EntryFormValues = { name: string; mint: string; ticker: string; notes: string; strategy: string; tags: string; thesis: string; supply: string; entryMarketCap: string; solInvested: string; liquiditySOL: string } & FeeOverride;
+
+// Trimmed mint/ticker/notes/strategy/tags/supply from the form, or null after
+// alerting on a bad mint or supply or a missing strategy
+function entryMeta(v: EntryFormValues): { mint?: string; ticker?: string; notes?: string; strategy: string; tags: string[]; supply?: number } | null {
+  const mint = v.mint.trim();
+  if (mint && !isMintAddress(mint)) { alert("Mint must be a base58 address (32–44 characters, no 0, O, I or l)."); return null; }
+  const strategy = v.strategy.trim();
+  if (!strategy) { alert("Please enter a strategy (e.g., Launch snipe, KOL call, Dip buy)."); return null; }
+  const ticker = v.ticker.trim().replace(/^\$/, "").toUpperCase();
+  const notes = v.notes.trim();
+  const supply = parseSupply(v.supply);
+  if (Number.isNaN(supply)) { alert("Token supply must be a positive number (or blank)."); return null; }
+  return { ...(mint && { mint }), ...(ticker && { ticker }), ...(notes && { notes }), strategy, tags: parseTags(v.tags), ...(supply && { supply }) };
+}
+
+// Blank = no supply; thousands separators allowed since supplies are long. NaN when invalid.
+function parseSupply(text: string): number | undefined {
+  const t = text.trim().replace(/[,_\s]/g, "");
+  if (!t) return undefined;
+  const n = Number(t);
+  return isFinitePos(n) ? n : NaN;
+}
+
+// A market cap input that can take the price per token instead once the supply
+// is known. `value` / `onChange` always carry the market cap, so callers and
+// the P/L math never see prices.
+function McapInput({ value, onChange, supply, placeholder, className }: { value: string; onChange: (mcap: string) => void; supply?: number; placeholder?: string; className: string }) {
+  const [mode, setMode] = useState<"mcap" | "price">("mcap");
+  const [priceText, setPriceText] = useState("");
+  const canPrice = isFinitePos(supply);
+  const byPrice = mode === "price" && canPrice;
+  const mcap = Number(value);
+  // Keep what was typed unless the mcap was changed from outside (form reset, Sell All…)
+  const typedMatches = priceText.trim() !== "" && isFinite(Number(priceText)) && Math.abs(Number(priceText) * supply! - mcap) <= 1e-9 * Math.max(1, mcap);
+  const shown = !byPrice ? value : typedMatches || !isFinitePos(mcap) ? priceText : String(mcap / supply!);
+
+  function change(text: string) {
+    if (!byPrice) return onChange(text);
+    setPriceText(text);
+    const p = Number(text);
+    onChange(text.trim() && isFinite(p) ? String(p * supply!) : text);
+  }
+
+  return (
+    <>
+      <div className="mt-1 flex gap-2">
+        <input inputMode="decimal" className={className} placeholder={byPrice ? "price per token, e.g. 0.0000142" : placeholder} value={shown} onChange={(e) => change(e.target.value)} />
+        <div className="flex shrink-0 rounded-xl border border-slate-700 overflow-hidden text-xs" title={canPrice ? "Enter market cap or price per token" : "Set the token supply to enter a price"}>
+          {(["mcap", "price"] as const).map(m => (
+            <button
+              key={m}
+              type="button"
+              disabled={m === "price" && !canPrice}
+              onClick={() => { if (m === "price" && isFinitePos(mcap)) setPriceText(String(mcap / supply!)); setMode(m); }}
+              className={"px-2 " + ((m === "price" ? byPrice : !byPrice) ? "bg-indigo-600 text-white" : "bg-slate-900 text-slate-300 disabled:opacity-40")}
+            >
+              {m === "mcap" ? "Mcap" : "Price"}
+            </button>
+          ))}
+        </div>
+      </div>
+      {canPrice && isFinitePos(mcap) && (
+        <span className="mt-1 block text-xs text-slate-400">{byPrice ? `= ${fmtNum(mcap)} mcap` : `= ${fmtPrice(mcap / supply!)} per token`}</span>
+      )}
+    </>
+  );
+}
+
+// Strategy (required, suggestions from past entries) and comma-separated tags;
+// known tags can be toggled with a click.
+function StrategyFields({ strategy, tags, strategies, known, onChange }: { strategy: string; tags: string; strategies: string[]; known: string[]; onChange: (v: { strategy?: string; tags?: string }) => void }) {
+  const listId = useId();
+  const current = parseTags(tags);
+  const toggle = (t: string) => onChange({ tags: (current.includes(t) ? current.filter(x => x !== t) : [...current, t]).join(", ") });
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      <label className="block"><span className="text-sm text-slate-300">Strategy</span>
+        <input list={listId} className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., Launch snipe" value={strategy} onChange={(e) => onChange({ strategy: e.target.value })} />
+        <datalist id={listId}>{strategies.filter(x => x !== UNASSIGNED_STRATEGY).map(x => <option key={x} value={x} />)}</datalist>
+      </label>
+      <label className="block col-span-2"><span className="text-sm text-slate-300">Tags (optional)</span>
+        <input className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., kol, pump, late" value={tags} onChange={(e) => onChange({ tags: e.target.value })} />
+        {known.length > 0 && (
+          <span className="mt-1 flex flex-wrap gap-1">
+            {known.slice(0, 12).map(t => (
+              <button key={t} type="button" onClick={() => toggle(t)} className={`px-2 py-0.5 rounded-full border text-xs ${current.includes(t) ? "bg-indigo-600 border-indigo-500 text-white" : "border-slate-700 text-slate-400"}`}>#{t}</button>
+            ))}
+          </span>
+        )}
+      </label>
+    </div>
+  );
+}
+
+function EntryForm({ mode, balance, fees, values, onChange, onSubmit, openEntries, selfId, strategies, tags }: { mode: "new" | "edit"; balance: number; fees?: FeeSettings; values: EntryFormValues; onChange: (v: EntryFormValues) => void; onSubmit: () => void; openEntries: Entry[]; selfId?: string; strategies: string[]; tags: string[] }) {
+  const mint = values.mint.trim();
+  const mintDup = mint ? openEntries.find(e => e.mint === mint && e.id !== selfId) : undefined;
+  const supply = parseSupply(values.supply);
+  const tradeFees = fees && resolveFees(fees, values);
+  const canAfford = (() => { const sol = Number(values.solInvested); if (!isFinite(sol)) return false; return sol + (tradeFees ? tradeFee(sol, tradeFees) : 0) <= balance || mode === "edit"; })();
   return (
     <div className="space-y-4">
       <div className="text-sm text-slate-300">Wallet Balance: <span className="font-semibold">{fmtSOL(balance)}</span></div>
@@ -1014,15 +4488,51 @@ function EntryForm({ mode, balance, values, onChange, onSubmit }: { mode: "new"
         <label className="block"><span className="text-sm text-slate-300">Name</span>
           <input className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., DONUT COIN" value={values.name} onChange={(e) => onChange({ ...values, name: e.target.value })} />
         </label>
+        <label className="block"><span className="text-sm text-slate-300">Token Mint (optional — enables the live feed)</span>
+          <input className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 font-mono text-sm outline-none focus:ring-2 focus:ring-indigo-500" placeholder="mint address" value={values.mint} onChange={(e) => onChange({ ...values, mint: e.target.value })} />
+          {mint && !isMintAddress(mint) && <span className="mt-1 block text-xs text-red-400">Not a base58 address (32–44 characters, no 0, O, I or l).</span>}
+          {mintDup && <span className="mt-1 block text-xs text-red-400">Already open as {mintDup.name} (#{mintDup.id}){mode === "new" ? " — use Buy More on it instead." : "."}</span>}
+        </label>
+        <div className="grid grid-cols-3 gap-3">
+          <label className="block"><span className="text-sm text-slate-300">Ticker</span>
+            <input className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., DONUT" value={values.ticker} onChange={(e) => onChange({ ...values, ticker: e.target.value })} />
+          </label>
+          <label className="block col-span-2"><span className="text-sm text-slate-300">Notes</span>
+            <input className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="why you're in, where you'd exit…" value={values.notes} onChange={(e) => onChange({ ...values, notes: e.target.value })} />
+          </label>
+        </div>
+        <StrategyFields strategy={values.strategy} tags={values.tags} strategies={strategies} known={tags} onChange={(v) => onChange({ ...values, ...v })} />
+        <div><span className="text-sm text-slate-300">Thesis (optional)</span>
+          <RichTextArea value={values.thesis} onChange={(thesis) => onChange({ ...values, thesis })} placeholder="Why this trade? Catalyst, invalidation, target…" />
+        </div>
+        <label className="block"><span className="text-sm text-slate-300">Token Supply (optional — enables price per token)</span>
+          <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 1,000,000,000" value={values.supply} onChange={(e) => onChange({ ...values, supply: e.target.value })} />
+          {Number.isNaN(supply) && <span className="mt-1 block text-xs text-red-400">Not a positive number.</span>}
+        </label>
         <label className="block"><span className="text-sm text-slate-300">Market Cap at Entry</span>
-          <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 14000" value={values.entryMarketCap} onChange={(e) => onChange({ ...values, entryMarketCap: e.target.value })} />
+          <McapInput className="w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 14000" supply={supply} value={values.entryMarketCap} onChange={(v) => onChange({ ...values, entryMarketCap: v })} />
         </label>
         <label className="block"><span className="text-sm text-slate-300">Amount of SOL to Invest</span>
           <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 1" value={values.solInvested} onChange={(e) => onChange({ ...values, solInvested: e.target.value })} />
         </label>
+        <label className="block"><span className="text-sm text-slate-300">Pool Liquidity (SOL, optional — enables slippage)</span>
+          <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 30 (SOL side of the pool)" value={values.liquiditySOL} onChange={(e) => onChange({ ...values, liquiditySOL: e.target.value })} />
+        </label>
+        {fees && mode === "new" && <FeeOverrideFields defaults={fees} value={values} onChange={(o) => onChange({ ...values, ...o })} />}
+        {tradeFees && mode === "new" && isFinitePos(Number(values.solInvested)) && isFinitePos(Number(values.entryMarketCap)) && (() => {
+          const mc = Number(values.entryMarketCap);
+          const liq = Number(values.liquiditySOL);
+          const q = buyQuote(isFinitePos(liq) ? { liquiditySOL: liq, liquidityMarketCap: mc } : undefined, mc, Number(values.solInvested), tradeFees);
+          return (
+            <div className="text-sm text-slate-300 space-y-1">
+              {q.slippagePct > 0 && <div>Fill mcap: <span className="font-semibold">{fmtNum(q.fillMcap)}</span> • Slippage: <span className="font-semibold text-amber-300">+{q.slippagePct.toFixed(2)}%</span></div>}
+              <div>Fee: <span className="font-semibold">{fmtSOL(q.fee)}</span> • Total cost: <span className="font-semibold">{fmtSOL(q.cost)}</span></div>
+            </div>
+          );
+        })()}
       </div>
       <div className="flex items-center justify-end gap-2">
-        <button className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" onClick={onSubmit} disabled={!canAfford}>
+        <button className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5" onClick={onSubmit} disabled={!canAfford || !!mintDup}>
           {mode === "new" ? "Add Entry / Buy" : "Save Changes"}
         </button>
       </div>
@@ -1044,16 +4554,275 @@ function StartingBalanceForm({ onSet }: { onSet: (n: number) => void }) {
   );
 }
 
-function AvgPreview({ entry, mcap, amount }: { entry: Entry; mcap: number; amount: number }) {
+function FeeOverrideFields({ defaults, value, onChange }: { defaults: FeeSettings; value: FeeOverride; onChange: (v: FeeOverride) => void }) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <label className="block"><span className="text-xs text-slate-400">Fixed fee (SOL) — blank = default</span>
+        <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder={String(defaults.fixedSOL)} value={value.feeFixed} onChange={(e) => onChange({ ...value, feeFixed: e.target.value })} />
+      </label>
+      <label className="block"><span className="text-xs text-slate-400">Swap fee (%) — blank = default</span>
+        <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder={String(defaults.swapPct)} value={value.feePct} onChange={(e) => onChange({ ...value, feePct: e.target.value })} />
+      </label>
+    </div>
+  );
+}
+
+function FeeSettingsModal({ fees, costMethod, onSave, onClose }: { fees: FeeSettings; costMethod: CostMethod; onSave: (f: FeeSettings, m: CostMethod) => void; onClose: () => void }) {
+  const [fixed, setFixed] = useState(String(fees.fixedSOL));
+  const [pct, setPct] = useState(String(fees.swapPct));
+  const [method, setMethod] = useState(costMethod);
+  return (
+    <Modal title="Fees & Accounting" onClose={onClose}>
+      <div className="space-y-4">
+        <p className="text-sm text-slate-400">Charged on every buy and sell of this portfolio unless overridden in the trade modal. Buy fees come out of your balance on top of the amount; sell fees come out of the proceeds.</p>
+        <label className="block"><span className="text-sm text-slate-300">Fixed fee per trade (SOL) — network + priority fee / Jito tip</span>
+          <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 0.001" value={fixed} onChange={(e) => setFixed(e.target.value)} />
+        </label>
+        <label className="block"><span className="text-sm text-slate-300">Swap fee (% of the SOL traded)</span>
+          <input inputMode="decimal" className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" placeholder="e.g., 1" value={pct} onChange={(e) => setPct(e.target.value)} />
+        </label>
+        <label className="block"><span className="text-sm text-slate-300">Cost basis</span>
+          <select className="mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500" value={method} onChange={(e) => setMethod(e.target.value as CostMethod)}>
+            {(Object.keys(COST_METHOD_LABELS) as CostMethod[]).map(m => <option key={m} value={m}>{COST_METHOD_LABELS[m]}</option>)}
+          </select>
+          <span className="mt-1 block text-xs text-slate-400">Average blends every DCA buy into one entry mcap. FIFO / LIFO keep each buy as a lot and sell the oldest / newest first. Applies to positions opened from now on; open ones keep theirs.</span>
+        </label>
+        <div className="flex items-center justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
+          <button onClick={() => {
+            const f = resolveFees(DEFAULT_FEES, { feeFixed: fixed || "0", feePct: pct || "0" });
+            if (!f) return alert("Fees must be ≥ 0 (swap fee below 100%).");
+            onSave(f, method);
+          }} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function LinksModal({ links, onSave, onClose }: { links: TokenLink[]; onSave: (l: TokenLink[]) => void; onClose: () => void }) {
+  const [rows, setRows] = useState(links);
+  const inputCls = "w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500";
+  const update = (i: number, patch: Partial<TokenLink>) => setRows(rows.map((r, j) => j === i ? { ...r, ...patch } : r));
+
+  function save() {
+    const cleaned = rows.map(r => ({ label: r.label.trim(), url: r.url.trim() })).filter(r => r.label || r.url);
+    for (const r of cleaned) {
+      if (!r.label) return alert(`Link ${r.url}: please enter a label.`);
+      const err = linkTemplateError(r.url);
+      if (err) return alert(`${r.label}: URL ${err}.`);
+    }
+    onSave(cleaned);
+  }
+
+  return (
+    <Modal title="Explorer & Chart Links" onClose={onClose}>
+      <div className="space-y-3">
+        <p className="text-sm text-slate-400">Shown on every position that has a mint, in all portfolios. <span className="font-mono">{"{mint}"}</span> in the URL is replaced with the mint address.</p>
+        {rows.map((r, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input className={`${inputCls} w-32 shrink-0`} placeholder="Label" value={r.label} onChange={(e) => update(i, { label: e.target.value })} />
+            <input className={`${inputCls} font-mono text-xs`} placeholder="https://…/{mint}" value={r.url} onChange={(e) => update(i, { url: e.target.value })} />
+            <button onClick={() => setRows(rows.filter((_, j) => j !== i))} className="p-2 rounded-lg hover:bg-slate-800 text-red-300" title="Remove">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <button onClick={() => setRows([...rows, { label: "", url: "" }])} className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">
+            <PlusCircle className="w-4 h-4" /> Add link
+          </button>
+          <button onClick={() => setRows(DEFAULT_LINKS)} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Reset to defaults</button>
+        </div>
+        <div className="flex items-center justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
+          <button onClick={save} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function UsdSettingsModal({ settings, rate, rates, onSave, onClose }: { settings: UsdSettings; rate?: number; rates: RatePoint[]; onSave: (u: UsdSettings, manualRate: number | null) => void; onClose: () => void }) {
+  const [source, setSource] = useState(settings.source);
+  const [manual, setManual] = useState(rate ? String(rate) : "");
+  const [interval, setInterval_] = useState(String(settings.intervalSec));
+  const [vol, setVol] = useState(String(settings.volatilityPct ?? DEFAULT_USD.volatilityPct));
+  const [series, setSeries] = useState(settings.series ?? []);
+  const inputCls = "mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500";
+
+  async function loadFile() {
+    const file = await pickFile(".json,.csv,application/json,text/csv");
+    if (!file) return;
+    const parsed = parseRateFile(await file.text());
+    if (typeof parsed === "string") return alert(`${file.name}: ${parsed}`);
+    setSeries(parsed);
+  }
+
+  function save() {
+    const intervalSec = Number(interval);
+    if (source !== "manual" && !isFinitePos(intervalSec)) return alert("Refresh interval must be a positive number of seconds.");
+    let manualRate: number | null = null;
+    if (source === "manual" || manual.trim()) {
+      manualRate = Number(manual);
+      if (!isFinitePos(manualRate)) return alert("SOL/USD must be a positive number.");
+    }
+    const volatilityPct = Number(vol);
+    if (source === "mock" && (!isFinite(volatilityPct) || volatilityPct < 0)) return alert("Volatility must be ≥ 0.");
+    if (source === "file" && !series.length) return alert("Load a rate file first.");
+    onSave({
+      source,
+      intervalSec: source === "manual" ? settings.intervalSec : intervalSec,
+      ...(source === "mock" ? { volatilityPct } : { volatilityPct: settings.volatilityPct }),
+      ...(source === "file" && { series }),
+    }, manualRate);
+  }
+
+  return (
+    <Modal title="SOL/USD Rate" onClose={onClose}>
+      <div className="space-y-4">
+        <p className="text-sm text-slate-400">Every fill, graph point and deposit records the rate in effect, so USD figures use the rate at the time of each trade. Trades from before a rate was set use the first known one.</p>
+        <div className="text-sm">Current: <span className="font-semibold">{rate ? `1 SOL = ${fmtUSD(rate)}` : "not set"}</span></div>
+        <label className="block"><span className="text-sm text-slate-300">Source</span>
+          <select className={inputCls} value={source} onChange={(e) => setSource(e.target.value as UsdSettings["source"])}>
+            <option value="manual">Manual</option>
+            <option value="mock">Mock (random walk)</option>
+            <option value="file">Local file (recorded rates)</option>
+          </select>
+        </label>
+        <label className="block"><span className="text-sm text-slate-300">{source === "manual" ? "SOL/USD" : "SOL/USD now (optional — starting point)"}</span>
+          <input inputMode="decimal" className={inputCls} placeholder="e.g., 150" value={manual} onChange={(e) => setManual(e.target.value)} />
+        </label>
+        {source !== "manual" && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block"><span className="text-xs text-slate-400">Refresh every (seconds)</span>
+              <input inputMode="decimal" className={inputCls} value={interval} onChange={(e) => setInterval_(e.target.value)} />
+            </label>
+            {source === "mock" && (
+              <label className="block"><span className="text-xs text-slate-400">Largest move per tick (%)</span>
+                <input inputMode="decimal" className={inputCls} value={vol} onChange={(e) => setVol(e.target.value)} />
+              </label>
+            )}
+          </div>
+        )}
+        {source === "file" && (
+          <div className="flex items-center gap-3 text-sm">
+            <button onClick={loadFile} className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">
+              <FileUp className="w-4 h-4" /> Load rates
+            </button>
+            <span className="text-xs text-slate-400">
+              {series.length ? `${series.length} rates, ${new Date(series[0].t).toLocaleString()} → ${new Date(series[series.length - 1].t).toLocaleString()}` : "JSON [{ t, rate }] or CSV time,rate"}
+            </span>
+          </div>
+        )}
+        {rates.length > 0 && (
+          <details className="rounded-xl border border-slate-800 p-3 text-sm">
+            <summary className="cursor-pointer text-slate-300">Rate history ({rates.length})</summary>
+            <div className="mt-2 max-h-40 overflow-auto text-xs">
+              {[...rates].reverse().slice(0, 200).map(r => (
+                <div key={r.t} className="flex justify-between border-t border-slate-800 py-0.5">
+                  <span className="text-slate-400">{new Date(r.t).toLocaleString()}</span><span>{fmtUSD(r.rate)}</span>
+                </div>
+              ))}
+            </div>
+          </details>
+        )}
+        <div className="flex items-center justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
+          <button onClick={save} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function FeedSettingsModal({ feed, onSave, onClose }: { feed: FeedSettings; onSave: (f: FeedSettings) => void; onClose: () => void }) {
+  const [provider, setProvider] = useState(feed.provider);
+  const [interval, setIntervalSec] = useState(String(feed.intervalSec));
+  const [vol, setVol] = useState(String(feed.volatilityPct ?? DEFAULT_FEED.volatilityPct));
+  const [fail, setFail] = useState(String(feed.failPct ?? 0));
+  const [replay, setReplay] = useState(feed.replay ? JSON.stringify(feed.replay, null, 1) : "");
+  const inputCls = "mt-1 w-full rounded-xl bg-slate-900 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500";
+
+  function save() {
+    const intervalSec = Number(interval);
+    if (!isFinite(intervalSec) || intervalSec < 1) return alert("Poll interval must be at least 1 second.");
+    const next: FeedSettings = { ...feed, provider, intervalSec };
+    if (provider === "mock") {
+      const volatilityPct = Number(vol), failPct = Number(fail);
+      if (!isFinite(volatilityPct) || volatilityPct < 0 || volatilityPct >= 100) return alert("Volatility must be between 0 and 100%.");
+      if (!isFinite(failPct) || failPct < 0 || failPct > 100) return alert("Failure rate must be between 0 and 100%.");
+      Object.assign(next, { volatilityPct, failPct });
+    }
+    if (provider === "replay") {
+      const r = parseReplay(replay);
+      if (!r.ok) return alert(`Replay recording: ${r.error}`);
+      next.replay = r.series;
+    }
+    onSave(next);
+  }
+
+  return (
+    <Modal title="Market Data Feed" onClose={onClose}>
+      <div className="space-y-4">
+        <p className="text-sm text-slate-400">Refreshes the market cap of every open position that has a token mint, like editing it by hand. Limit orders and TP/SL rules fire on these updates. A mint whose quote fails is retried with backoff.</p>
+        <label className="block"><span className="text-sm text-slate-300">Provider</span>
+          <select className={inputCls} value={provider} onChange={(e) => setProvider(e.target.value as FeedSettings["provider"])}>
+            <option value="off">Off</option>
+            <option value="mock">Mock — random walk, no network</option>
+            <option value="replay">Replay — recorded market caps</option>
+          </select>
+        </label>
+        <label className="block"><span className="text-sm text-slate-300">Poll every (seconds)</span>
+          <input inputMode="decimal" className={inputCls} value={interval} onChange={(e) => setIntervalSec(e.target.value)} />
+        </label>
+        {provider === "mock" && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block"><span className="text-xs text-slate-400">Max move per poll (%)</span>
+              <input inputMode="decimal" className={inputCls} value={vol} onChange={(e) => setVol(e.target.value)} />
+            </label>
+            <label className="block"><span className="text-xs text-slate-400">Simulated failure rate (%)</span>
+              <input inputMode="decimal" className={inputCls} value={fail} onChange={(e) => setFail(e.target.value)} />
+            </label>
+          </div>
+        )}
+        {provider === "replay" && (
+          <label className="block"><span className="text-sm text-slate-300">Recording — one market cap per poll, the last one is held</span>
+            <textarea rows={6} className={`${inputCls} font-mono text-xs`} placeholder={'{ "<mint>": [14000, 15200, 13900] }'} value={replay} onChange={(e) => setReplay(e.target.value)} />
+          </label>
+        )}
+        <div className="flex items-center justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
+          <button onClick={save} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function AvgPreview({ entry, mcap, amount, fees }: { entry: Entry; mcap: number; amount: number; fees: FeeSettings | null }) {
   if (!isFinite(mcap) || !isFinite(amount) || amount <= 0) return null;
-  const curInv = entry.solInvested;
-  const newAvg = (entry.entryMarketCap * curInv + mcap * amount) / (curInv + amount);
+  if (!fees) return <div className="text-sm text-red-400">Invalid fee override.</div>;
+  const q = buyQuote(entry, mcap, amount, fees);
+  const newAvg = appendFill(entry, { side: "buy", marketCap: q.fillMcap, sol: amount, solReturned: 0, fee: q.fee, t: Date.now() }).entryMarketCap;
   return (
-    <div className="text-sm text-slate-300">Your New Average Entry: <span className="font-semibold">{fmtNum(newAvg)}</span></div>
+    <div className="text-sm text-slate-300 space-y-1">
+      <div>Your New Average Entry: <span className="font-semibold">{fmtNum(newAvg)}</span></div>
+      {q.slippagePct > 0 && <div>Fill mcap: <span className="font-semibold">{fmtNum(q.fillMcap)}</span> • Slippage: <span className="font-semibold text-amber-300">+{q.slippagePct.toFixed(2)}%</span></div>}
+      <div>Fee: <span className="font-semibold">{fmtSOL(q.fee)}</span> • Total cost: <span className="font-semibold">{fmtSOL(q.cost)}</span></div>
+    </div>
   );
 }
 
-function SellPreview({ entry, mcap, amountValue }: { entry: Entry; mcap: number; amountValue: number }) {
+function SellPreview({ entry, mcap, amountValue, fees }: { entry: Entry; mcap: number; amountValue: number; fees: FeeSettings | null }) {
   if (!isFinite(mcap) || mcap <= 0) return null;
   const multiplier = mcap / entry.entryMarketCap;
   const currentValue = entry.solInvested * multiplier; // value SOL at current mcap
@@ -1069,27 +4838,256 @@ function SellPreview({ entry, mcap, amountValue }: { entry: Entry; mcap: number;
   if (amountValue > currentValue + 1e-12)
     return <div className="text-sm text-red-400">Sell amount exceeds current position value.</div>;
 
+  if (!fees) return <div className="text-sm text-red-400">Invalid fee override.</div>;
+
   const baseToSell = amountValue / multiplier; // convert value-SOL back to base SOL
-  const returned = amountValue;                 // you receive value SOL
-  const pnl = returned - baseToSell;
+  const q = sellQuote(entry, mcap, baseToSell, fees);
+  const returned = q.net;                       // value SOL after slippage and fees
+  const pnl = returned - q.basis;
   const leftValue = currentValue - amountValue;
   const color = pnl >= 0 ? "text-green-400" : "text-red-400";
+  const lots = entry.costMethod ? replayLots(entry.fills, entry.costMethod) : [];
 
   return (
     <div className="text-sm text-slate-300 space-y-1">
       <div>Current position value: <span className="font-semibold">{fmtSOL(currentValue)}</span></div>
-      <div>Base to sell: <span className="font-semibold">{fmtSOL(baseToSell)}</span> • Return: <span className="font-semibold">{fmtSOL(returned)}</span> • P/L: <span className={`font-semibold ${color}`}>{fmtSOL(pnl)}</span></div>
+      {q.slippagePct < 0 && <div>Fill mcap: <span className="font-semibold">{fmtNum(q.fillMcap)}</span> • Slippage: <span className="font-semibold text-amber-300">{q.slippagePct.toFixed(2)}%</span> ({fmtSOL(amountValue - q.gross)})</div>}
+      <div>Base to sell: <span className="font-semibold">{fmtSOL(q.basis)}</span> • Fee: <span className="font-semibold">{fmtSOL(q.fee)}</span> • Net return: <span className="font-semibold">{fmtSOL(returned)}</span> • P/L: <span className={`font-semibold ${color}`}>{fmtSOL(pnl)}</span></div>
       <div>You will be left with: <span className="font-semibold">{fmtSOL(leftValue)}</span></div>
+      {q.closes.length > 0 && (
+        <div className="mt-2 rounded-lg border border-slate-800 p-2 text-xs">
+          <div className="text-slate-400 mb-1">Lots closed ({COST_METHOD_LABELS[entry.costMethod!]})</div>
+          {q.closes.map(c => (
+            <div key={c.lot} className="flex justify-between gap-3">
+              <span>Lot {c.lot + 1} @ {fmtNum(lots[c.lot].marketCap)}{c.sol < lots[c.lot].openSOL - 1e-12 ? ` (${((c.sol / lots[c.lot].openSOL) * 100).toFixed(1)}%)` : ""}</span>
+              <span>basis {c.sol.toFixed(4)} → {c.returned.toFixed(4)} <span className={c.pnl >= 0 ? "text-green-400" : "text-red-400"}>({c.pnl >= 0 ? "+" : ""}{c.pnl.toFixed(4)})</span></span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Journal markup: **bold**, *italic*, lines starting "- " are bullets, a blank
+// line starts a new paragraph. Rendered as elements, never as HTML, so imported
+// backups can't inject markup.
+function richInline(text: string): React.ReactNode[] {
+  return text.split(/(\*\*[^*\n]+\*\*|\*[^*\n]+\*)/g).map((part, i) =>
+    i % 2 === 0 ? part : part.startsWith("**") ? <strong key={i}>{part.slice(2, -2)}</strong> : <em key={i}>{part.slice(1, -1)}</em>);
+}
+
+function RichText({ text, className }: { text: string; className?: string }) {
+  const blocks: React.ReactNode[] = [];
+  let para: string[] = [], items: string[] = [];
+  const flush = () => {
+    const k = blocks.length;
+    if (para.length) blocks.push(<p key={k}>{para.map((l, j) => <React.Fragment key={j}>{j > 0 && <br />}{richInline(l)}</React.Fragment>)}</p>);
+    else if (items.length) blocks.push(<ul key={k} className="list-disc pl-5">{items.map((l, j) => <li key={j}>{richInline(l)}</li>)}</ul>);
+    para = []; items = [];
+  };
+  for (const line of text.trim().split("\n")) {
+    const bullet = /^\s*[-•]\s+(.*)$/.exec(line);
+    if (!line.trim()) flush();
+    else if (bullet) { if (para.length) flush(); items.push(bullet[1]); }
+    else { if (items.length) flush(); para.push(line); }
+  }
+  flush();
+  return <div className={"space-y-2 " + (className ?? "")}>{blocks}</div>;
+}
+
+function RichTextArea({ value, onChange, placeholder }: { value: string; onChange: (v: string) => void; placeholder?: string }) {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  const [preview, setPreview] = useState(false);
+
+  // Wrap the selection in `mark` (or insert a pair to type into)
+  function wrap(mark: string) {
+    const el = ref.current; if (!el) return;
+    const a = el.selectionStart, b = el.selectionEnd;
+    onChange(value.slice(0, a) + mark + value.slice(a, b) + mark + value.slice(b));
+    requestAnimationFrame(() => { el.focus(); el.setSelectionRange(a + mark.length, b + mark.length); });
+  }
+
+  function bullet() {
+    const el = ref.current; if (!el) return;
+    const pos = el.selectionStart;
+    const start = value.lastIndexOf("\n", pos - 1) + 1;
+    onChange(value.slice(0, start) + "- " + value.slice(start));
+    requestAnimationFrame(() => { el.focus(); el.setSelectionRange(pos + 2, pos + 2); });
+  }
+
+  const btn = "p-1.5 rounded-lg hover:bg-slate-800 disabled:opacity-40";
+  return (
+    <div className="mt-1 rounded-xl bg-slate-900 border border-slate-700 focus-within:ring-2 focus-within:ring-indigo-500">
+      <div className="flex items-center gap-1 border-b border-slate-800 px-2 py-1 text-slate-300">
+        <button type="button" className={btn} disabled={preview} onClick={() => wrap("**")} title="Bold (**text**)"><Bold className="w-3.5 h-3.5" /></button>
+        <button type="button" className={btn} disabled={preview} onClick={() => wrap("*")} title="Italic (*text*)"><Italic className="w-3.5 h-3.5" /></button>
+        <button type="button" className={btn} disabled={preview} onClick={bullet} title="Bullet (- at line start)"><List className="w-3.5 h-3.5" /></button>
+        <button type="button" className={`${btn} ml-auto ${preview ? "text-indigo-300" : ""}`} onClick={() => setPreview(p => !p)} title="Preview"><Eye className="w-3.5 h-3.5" /></button>
+      </div>
+      {preview
+        ? <div className="min-h-24 px-3 py-2 text-sm">{value.trim() ? <RichText text={value} /> : <span className="text-slate-500">Nothing yet.</span>}</div>
+        : <textarea ref={ref} rows={4} className="block w-full resize-y bg-transparent px-3 py-2 text-sm outline-none" placeholder={placeholder} value={value} onChange={(e) => onChange(e.target.value)} />}
     </div>
   );
 }
 
+function Stars({ rating, onChange }: { rating: number; onChange?: (n: number) => void }) {
+  return (
+    <span className="inline-flex">
+      {[1, 2, 3, 4, 5].map(n => {
+        const icon = <Star className={`w-4 h-4 ${n <= rating ? "fill-amber-400 text-amber-400" : "text-slate-600"}`} />;
+        return onChange
+          ? <button key={n} type="button" onClick={() => onChange(n === rating ? 0 : n)} className="p-0.5" title={`${n} of 5`}>{icon}</button>
+          : <span key={n}>{icon}</span>;
+      })}
+    </span>
+  );
+}
+
+// Thesis, per-fill notes, review, rating and screenshots of one position.
+// New images are only written to storage when the journal is saved.
+function JournalModal({ entry, backend, pid, onSave, onClose }: {
+  entry: Entry;
+  backend: StorageBackend;
+  pid: string;
+  onSave: (journal: Journal, notes: string[], added: ShotRecord[]) => void;
+  onClose: () => void;
+}) {
+  const j = entry.journal ?? {};
+  const [thesis, setThesis] = useState(j.thesis ?? "");
+  const [review, setReview] = useState(j.review ?? "");
+  const [rating, setRating] = useState(j.rating ?? 0);
+  const [notes, setNotes] = useState(() => entry.fills.map(f => f.note ?? ""));
+  const [shots, setShots] = useState<Shot[]>(j.shots ?? []);
+  const [blobs, setBlobs] = useState<Map<string, Blob>>(new Map());
+  const [added, setAdded] = useState<ShotRecord[]>([]);
+  const [viewing, setViewing] = useState<string | null>(null);
+  const urls = useMemo(() => new Map([...blobs].map(([id, b]) => [id, URL.createObjectURL(b)])), [blobs]);
+  useEffect(() => () => urls.forEach(u => URL.revokeObjectURL(u)), [urls]);
+  const inputCls = "w-full rounded-lg bg-slate-900 border border-slate-700 px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-indigo-500";
+
+  useEffect(() => {
+    backend.getPrefix("attachments", `${pid}/${entry.id}/`)
+      .then(recs => setBlobs(m => new Map([...(recs as ShotRecord[]).map(r => [r.id, r.blob] as const), ...m])))
+      .catch(() => { /* the shots show as not stored */ });
+  }, [backend, pid, entry.id]);
+
+  function addImages(files: File[]) {
+    const images = files.filter(f => f.type.startsWith("image/"));
+    const big = images.filter(f => f.size > SHOT_MAX_BYTES);
+    if (big.length) alert(`${big.map(f => f.name || "Pasted image").join(", ")}: over ${SHOT_MAX_BYTES / 1e6} MB, not added.`);
+    const t = Date.now();
+    const recs = images.filter(f => f.size <= SHOT_MAX_BYTES).map((f, i) => ({ file: f, rec: { id: `s${t.toString(36)}${i}`, blob: f as Blob } }));
+    if (!recs.length) return;
+    setAdded(a => [...a, ...recs.map(r => r.rec)]);
+    setBlobs(m => new Map([...m, ...recs.map(r => [r.rec.id, r.file] as const)]));
+    setShots(xs => [...xs, ...recs.map(({ file, rec }) => ({ id: rec.id, name: file.name || "pasted.png", type: file.type, bytes: file.size, t }))]);
+  }
+
+  // Paste an image anywhere while the journal is open
+  useEffect(() => {
+    const onPaste = (ev: ClipboardEvent) => {
+      const files = [...(ev.clipboardData?.items ?? [])].filter(it => it.kind === "file" && it.type.startsWith("image/")).map(it => it.getAsFile()).filter((f): f is File => f !== null);
+      if (files.length) { ev.preventDefault(); addImages(files); }
+    };
+    document.addEventListener("paste", onPaste);
+    return () => document.removeEventListener("paste", onPaste);
+  });
+
+  async function upload() {
+    const file = await pickFile("image/*");
+    if (file) addImages([file]);
+  }
+
+  function save() {
+    const keep = new Set(shots.map(x => x.id));
+    const journal: Journal = {
+      ...(thesis.trim() && { thesis: thesis.trim() }),
+      ...(review.trim() && { review: review.trim() }),
+      ...(rating > 0 && { rating }),
+      ...(shots.length > 0 && { shots }),
+    };
+    onSave(journal, notes.map(n => n.trim()), added.filter(r => keep.has(r.id)));
+  }
+
+  const sideClr = { buy: "text-indigo-300", sell: "text-emerald-300", adjust: "text-amber-300" };
+  return (
+    <Modal title={`Journal • ${entry.name}`} onClose={onClose} wide>
+      <div className="space-y-5 max-h-[75vh] overflow-auto pr-1">
+        <section>
+          <div className="text-sm font-semibold">Thesis</div>
+          <RichTextArea value={thesis} onChange={setThesis} placeholder="Why this trade? Catalyst, invalidation, target…" />
+        </section>
+        <section>
+          <div className="text-sm font-semibold mb-1">Fill notes</div>
+          <div className="max-h-52 overflow-auto space-y-1">
+            {entry.fills.map((f, i) => f.side === "adjust" ? null : (
+              <div key={i} className="grid grid-cols-[9rem_3rem_1fr] items-center gap-2 text-xs">
+                <span className="text-slate-400 whitespace-nowrap">{new Date(f.t).toLocaleString()}</span>
+                <span className={sideClr[f.side]} title={`${fmtNum(f.side === "sell" ? f.solReturned : f.sol)} SOL @ ${fmtMcap(f.quotedMarketCap ?? f.marketCap)}`}>{f.side}</span>
+                <input className={inputCls} placeholder={f.side === "buy" ? "why buy here?" : "why sell here?"} value={notes[i]} onChange={(e) => setNotes(ns => ns.map((n, k) => k === i ? e.target.value : n))} />
+              </div>
+            ))}
+          </div>
+        </section>
+        <section>
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold">Post-trade review</div>
+            <div className="flex items-center gap-2 text-xs text-slate-400">Self-rating <Stars rating={rating} onChange={setRating} /></div>
+          </div>
+          {entry.status === "open" && <div className="text-xs text-slate-500">Still open — the review is usually written after the close.</div>}
+          <RichTextArea value={review} onChange={setReview} placeholder="What went right or wrong? Would you take it again?" />
+        </section>
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-semibold">Screenshots</div>
+            <button onClick={upload} className="inline-flex items-center gap-2 px-3 py-1.5 rounded-xl bg-slate-800 border border-slate-700 text-sm transition-transform duration-150 hover:-translate-y-0.5">
+              <ImagePlus className="w-4 h-4" /> Add image
+            </button>
+          </div>
+          {shots.length === 0 ? (
+            <div className="text-xs text-slate-500">Upload a chart or paste one (Ctrl/Cmd+V). Images stay in this browser and aren't part of JSON backups.</div>
+          ) : (
+            <div className="grid grid-cols-3 md:grid-cols-4 gap-2">
+              {shots.map(x => (
+                <div key={x.id} className="relative group rounded-lg border border-slate-800 overflow-hidden bg-slate-900">
+                  {urls.get(x.id)
+                    ? <button onClick={() => setViewing(x.id)} className="block w-full"><img src={urls.get(x.id)} alt={x.name} className="h-24 w-full object-cover" /></button>
+                    : <div className="h-24 flex items-center justify-center p-2 text-center text-[11px] text-slate-500">Not stored in this browser</div>}
+                  <div className="truncate px-1 py-0.5 text-[10px] text-slate-400" title={x.name}>{x.name} • {(x.bytes / 1e3).toFixed(0)} KB</div>
+                  <button onClick={() => { setShots(xs => xs.filter(y => y.id !== x.id)); setAdded(a => a.filter(r => r.id !== x.id)); }} className="absolute top-1 right-1 p-1 rounded bg-black/60 opacity-0 group-hover:opacity-100" title="Remove">
+                    <Trash2 className="w-3.5 h-3.5 text-red-300" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+        <div className="flex items-center justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 transition-transform duration-150 hover:-translate-y-0.5">Cancel</button>
+          <button onClick={save} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 transition-transform duration-150 hover:-translate-y-0.5 font-medium">
+            <Save className="w-4 h-4" /> Save Journal
+          </button>
+        </div>
+      </div>
+      {viewing && urls.get(viewing) && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 p-6" onClick={() => setViewing(null)}>
+          <img src={urls.get(viewing)} alt="" className="max-h-full max-w-full rounded-lg" />
+        </div>
+      )}
+    </Modal>
+  );
+}
+
 // ────────────────────────────────────────────────────────────────────────────────
 // Export Preview (Styled Share Image)
 // ────────────────────────────────────────────────────────────────────────────────
 
-function ExportPreview({ entry, onClose }: { entry: Entry; onClose: () => void }) {
+function ExportPreview({ entry, money, onClose }: { entry: Entry; money: Money; onClose: () => void }) {
   const previewRef = useRef<HTMLDivElement>(null);
+  const [withJournal, setWithJournal] = useState(false);
+  const journal = entry.journal;
 
   function downloadImage() {
     if (!previewRef.current) return;
@@ -1119,20 +5117,35 @@ function ExportPreview({ entry, onClose }: { entry: Entry; onClose: () => void }
             <div className="mt-1 text-2xl font-bold tracking-tight">{entry.name}</div>
 
             <div className="mt-6 grid grid-cols-2 gap-3 text-sm">
-              <div className="bg-white/5 rounded-xl p-4"><div className="opacity-70">Avg Entry</div><div className="text-lg font-semibold">{fmtNum(entry.entryMarketCap)}</div></div>
+              <div className="bg-white/5 rounded-xl p-4"><div className="opacity-70">Avg Entry</div><div className="text-lg font-semibold">{fmtNum(entry.entryMarketCap)}</div>{entry.supply && <div className="text-xs opacity-70">{fmtPrice(entry.entryMarketCap / entry.supply)} per token</div>}</div>
               <div className="bg-white/5 rounded-xl p-4"><div className="opacity-70">Total Returned</div><div className="text-lg font-semibold">{fmtSOL(entry.solReturned ?? 0)}</div></div>
               <div className="bg-white/5 rounded-xl p-4"><div className="opacity-70">Buys (SOL)</div><div className="text-lg font-semibold">{fmtSOL(entry.cumulativeBuySOL ?? 0)}</div></div>
-              <div className="bg-white/5 rounded-xl p-4"><div className="opacity-70">Last Sell Mcap</div><div className="text-lg font-semibold">{fmtNum(entry.sellMarketCap ?? 0)}</div></div>
+              <div className="bg-white/5 rounded-xl p-4"><div className="opacity-70">Last Sell Mcap</div><div className="text-lg font-semibold">{fmtNum(entry.sellMarketCap ?? 0)}</div>{entry.supply && entry.sellMarketCap && <div className="text-xs opacity-70">{fmtPrice(entry.sellMarketCap / entry.supply)} per token</div>}</div>
             </div>
 
+            <Sparkline entry={entry} className="mt-6 w-full h-20 bg-white/5 rounded-xl" />
+
             <div className="mt-8 text-center">
               <div className={`text-5xl font-extrabold ${pnlColor}`}>{sign}{(entry.pnlPercent ?? 0).toFixed(2)}%</div>
-              <div className="mt-2 text-white/80">P/L: {fmtSOL(entry.pnl ?? 0)}</div>
+              <div className="mt-2 text-white/80">P/L: {fmtSOL(entry.pnl ?? 0)}{money.currency === "USD" && ` • ${fmtRealized(money, [entry], entry.pnl ?? 0)}`}</div>
               <div className="mt-1 text-xs text-white/60">{entry.soldAt ? new Date(entry.soldAt).toLocaleString() : ""}</div>
             </div>
+
+            {withJournal && journal && (
+              <div className="mt-6 space-y-3 text-sm">
+                {journal.rating && <div className="flex items-center gap-2"><span className="opacity-70">Self-rating</span><Stars rating={journal.rating} /></div>}
+                {journal.thesis && <div className="bg-white/5 rounded-xl p-4"><div className="opacity-70 mb-1">Thesis</div><RichText text={journal.thesis} /></div>}
+                {journal.review && <div className="bg-white/5 rounded-xl p-4"><div className="opacity-70 mb-1">Review</div><RichText text={journal.review} /></div>}
+              </div>
+            )}
           </div>
         </div>
 
+        {(journal?.thesis || journal?.review || journal?.rating) && (
+          <label className="mt-4 flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={withJournal} onChange={(e) => setWithJournal(e.target.checked)} /> Show journal (thesis, review, rating)
+          </label>
+        )}
         <button onClick={downloadImage} className="mt-4 w-full bg-indigo-600 hover:bg-indigo-500 py-2 rounded-xl inline-flex items-center justify-center gap-2 transition-transform duration-150 hover:-translate-y-0.5">
           <Download className="w-4 h-4" /> Download Image
         </button>
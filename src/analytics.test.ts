@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { maxDrawdown, netFlows, roi, timeWeightedReturn, tradeStats, tradingEquity } from "./analytics";
+
+const trade = (pnl: number, closedAt: number, pnlPercent = pnl * 10) => ({ pnl, pnlPercent, closedAt });
+
+describe("tradeStats", () => {
+  it("has no profit factor without trades", () => {
+    const s = tradeStats([]);
+    expect(s.trades).toBe(0);
+    expect(s.profitFactor).toBeNull();
+    expect(s.expectancy).toBe(0);
+  });
+
+  it("has an infinite profit factor when nothing lost", () => {
+    expect(tradeStats([trade(1, 1), trade(2, 2)]).profitFactor).toBe(Infinity);
+  });
+
+  it("has no profit factor when every trade broke even", () => {
+    const s = tradeStats([trade(0, 1), trade(0, 2)]);
+    expect(s.losses).toBe(2);
+    expect(s.profitFactor).toBeNull();
+  });
+
+  it("divides gross profit by gross loss", () => {
+    const s = tradeStats([trade(3, 1), trade(-2, 2), trade(1, 3)]);
+    expect(s.profitFactor).toBe(2);
+    expect(s.grossProfit).toBe(4);
+    expect(s.grossLoss).toBe(-2);
+    expect(s.expectancy).toBeCloseTo(2 / 3);
+    expect(s.largestWin).toBe(3);
+    expect(s.largestLoss).toBe(-2);
+  });
+
+  it("counts streaks in close order, not input order", () => {
+    const s = tradeStats([trade(1, 4), trade(-1, 1), trade(1, 3), trade(-1, 2), trade(1, 5)]);
+    expect(s.longestWinStreak).toBe(3);
+    expect(s.longestLossStreak).toBe(2);
+  });
+});
+
+describe("maxDrawdown", () => {
+  it("is zero for an empty or rising series", () => {
+    expect(maxDrawdown([])).toEqual({ maxDrawdown: 0, maxDrawdownPct: 0, peakAt: null, troughAt: null, recoveredAt: null, recoveryMs: null });
+    expect(maxDrawdown([{ t: 0, equity: 1 }, { t: 1, equity: 2 }]).maxDrawdown).toBe(0);
+  });
+
+  it("finds the largest fall and when it got back to that peak", () => {
+    const dd = maxDrawdown([
+      { t: 0, equity: 100 },
+      { t: 10, equity: 120 },
+      { t: 20, equity: 90 },
+      { t: 30, equity: 110 },
+      { t: 40, equity: 120 },
+      { t: 50, equity: 115 },
+    ]);
+    expect(dd.maxDrawdown).toBe(30);
+    expect(dd.maxDrawdownPct).toBeCloseTo(25);
+    expect(dd.peakAt).toBe(10);
+    expect(dd.troughAt).toBe(20);
+    expect(dd.recoveredAt).toBe(40);
+    expect(dd.recoveryMs).toBe(20);
+  });
+
+  it("measures recovery against the peak of the worst fall, not a later one", () => {
+    const dd = maxDrawdown([
+      { t: 0, equity: 100 },
+      { t: 10, equity: 50 },
+      { t: 20, equity: 100 },
+      { t: 30, equity: 130 },
+      { t: 40, equity: 110 },
+    ]);
+    expect(dd.maxDrawdown).toBe(50);
+    expect(dd.recoveredAt).toBe(20);
+  });
+
+  it("leaves recovery open while below the peak", () => {
+    const dd = maxDrawdown([{ t: 0, equity: 100 }, { t: 10, equity: 60 }, { t: 20, equity: 90 }]);
+    expect(dd.maxDrawdownPct).toBeCloseTo(40);
+    expect(dd.recoveredAt).toBeNull();
+    expect(dd.recoveryMs).toBeNull();
+  });
+});
+
+describe("roi and flows", () => {
+  it("is zero without a starting balance", () => {
+    expect(roi(0, 10)).toBe(0);
+    expect(roi(10, 15)).toBeCloseTo(50);
+  });
+
+  it("sums flows up to and including t", () => {
+    const flows = [{ t: 1, amount: 5 }, { t: 2, amount: -2 }, { t: 3, amount: 10 }];
+    expect(netFlows(flows, 2)).toBe(3);
+    expect(netFlows(flows)).toBe(13);
+    expect(tradingEquity([{ t: 0, equity: 10 }, { t: 2, equity: 20 }], flows)).toEqual([{ t: 0, equity: 10 }, { t: 2, equity: 17 }]);
+  });
+});
+
+describe("timeWeightedReturn", () => {
+  it("chains sub-period returns", () => {
+    expect(timeWeightedReturn([{ t: 0, equity: 100 }, { t: 10, equity: 110 }, { t: 20, equity: 121 }], [])).toBeCloseTo(21);
+  });
+
+  it("takes a deposit inside a sub-period out of that period's return", () => {
+    const series = [{ t: 0, equity: 100 }, { t: 10, equity: 160 }, { t: 20, equity: 176 }];
+    expect(timeWeightedReturn(series, [{ t: 5, amount: 50 }])).toBeCloseTo(21);
+  });
+
+  it("adds a withdrawal back", () => {
+    expect(timeWeightedReturn([{ t: 0, equity: 100 }, { t: 10, equity: 50 }], [{ t: 10, amount: -60 }])).toBeCloseTo(10);
+  });
+
+  it("counts a flow at a sub-period's start in the period before it", () => {
+    const series = [{ t: 0, equity: 100 }, { t: 10, equity: 150 }, { t: 20, equity: 165 }];
+    expect(timeWeightedReturn(series, [{ t: 10, amount: 50 }])).toBeCloseTo(10);
+  });
+
+  it("skips sub-periods that start at zero equity", () => {
+    expect(timeWeightedReturn([{ t: 0, equity: 0 }, { t: 10, equity: 100 }, { t: 20, equity: 110 }], [{ t: 5, amount: 100 }])).toBeCloseTo(10);
+  });
+});
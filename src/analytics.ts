@@ -0,0 +1,125 @@
+// ────────────────────────────────────────────────────────────────────────────────
+// Performance analytics
+//
+// Pure functions over plain numbers: no React, no storage, no app types, so
+// they can be unit tested and reused by any view.
+// ────────────────────────────────────────────────────────────────────────────────
+
+export type ClosedTrade = { pnl: number; pnlPercent: number; closedAt: number };
+export type EquityPoint = { t: number; equity: number };
+export type CashFlowPoint = { t: number; amount: number }; // + deposit, − withdrawal
+
+export type TradeStats = {
+  trades: number;
+  wins: number;
+  losses: number; // break-even counts as a loss, like the header win rate
+  grossProfit: number;
+  grossLoss: number; // ≤ 0
+  profitFactor: number | null; // grossProfit / |grossLoss|; Infinity with no losses, null with no trades
+  expectancy: number; // mean P/L per trade (SOL)
+  expectancyPct: number; // mean P/L per trade (%)
+  avgWin: number;
+  avgLoss: number; // ≤ 0
+  largestWin: number;
+  largestLoss: number; // ≤ 0
+  longestWinStreak: number;
+  longestLossStreak: number;
+};
+
+export type Drawdown = {
+  maxDrawdown: number; // SOL, ≥ 0
+  maxDrawdownPct: number; // of the peak it fell from
+  peakAt: number | null;
+  troughAt: number | null;
+  recoveredAt: number | null; // first time equity got back to that peak; null = not yet
+  recoveryMs: number | null; // trough → recovered
+};
+
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+const mean = (xs: number[]) => (xs.length ? sum(xs) / xs.length : 0);
+
+export function tradeStats(trades: ClosedTrade[]): TradeStats {
+  const ordered = [...trades].sort((a, b) => a.closedAt - b.closedAt);
+  const wins = ordered.filter(t => t.pnl > 0).map(t => t.pnl);
+  const losses = ordered.filter(t => t.pnl <= 0).map(t => t.pnl);
+  const grossProfit = sum(wins);
+  const grossLoss = sum(losses);
+
+  let longestWinStreak = 0, longestLossStreak = 0, run = 0, prevWin: boolean | null = null;
+  for (const t of ordered) {
+    const win = t.pnl > 0;
+    run = win === prevWin ? run + 1 : 1;
+    prevWin = win;
+    if (win) longestWinStreak = Math.max(longestWinStreak, run);
+    else longestLossStreak = Math.max(longestLossStreak, run);
+  }
+
+  return {
+    trades: ordered.length,
+    wins: wins.length,
+    losses: losses.length,
+    grossProfit,
+    grossLoss,
+    profitFactor: ordered.length === 0 ? null : grossLoss < 0 ? grossProfit / -grossLoss : grossProfit > 0 ? Infinity : null,
+    expectancy: mean(ordered.map(t => t.pnl)),
+    expectancyPct: mean(ordered.map(t => t.pnlPercent)),
+    avgWin: mean(wins),
+    avgLoss: mean(losses),
+    largestWin: wins.length ? Math.max(...wins) : 0,
+    largestLoss: losses.length ? Math.min(...losses) : 0,
+    longestWinStreak,
+    longestLossStreak,
+  };
+}
+
+// Largest peak-to-trough fall of the equity series, and how long it took to
+// climb back to that peak.
+export function maxDrawdown(series: EquityPoint[]): Drawdown {
+  const result: Drawdown = { maxDrawdown: 0, maxDrawdownPct: 0, peakAt: null, troughAt: null, recoveredAt: null, recoveryMs: null };
+  let peak = -Infinity, peakAt = 0;
+  let worstPeak = 0;
+  for (const p of series) {
+    if (p.equity > peak) { peak = p.equity; peakAt = p.t; }
+    const dd = peak - p.equity;
+    if (dd > result.maxDrawdown) {
+      Object.assign(result, { maxDrawdown: dd, maxDrawdownPct: peak > 0 ? (dd / peak) * 100 : 0, peakAt, troughAt: p.t });
+      worstPeak = peak;
+    }
+  }
+  if (result.troughAt !== null) {
+    const back = series.find(p => p.t > result.troughAt! && p.equity >= worstPeak);
+    if (back) { result.recoveredAt = back.t; result.recoveryMs = back.t - result.troughAt; }
+  }
+  return result;
+}
+
+// Return on the starting balance, in %
+export function roi(startingBalance: number, equity: number): number {
+  return startingBalance > 0 ? (equity / startingBalance - 1) * 100 : 0;
+}
+
+// Net capital moved in (deposits − withdrawals) at or before `t`
+export function netFlows(flows: CashFlowPoint[], t = Infinity): number {
+  return sum(flows.filter(f => f.t <= t).map(f => f.amount));
+}
+
+// The equity series with capital moves taken out: what it would have been had
+// nothing been deposited or withdrawn. Drawdowns on this are trading losses only.
+export function tradingEquity(series: EquityPoint[], flows: CashFlowPoint[]): EquityPoint[] {
+  return series.map(p => ({ t: p.t, equity: p.equity - netFlows(flows, p.t) }));
+}
+
+// Time-weighted return in %. Each step between two equity points is one
+// sub-period; flows inside it are treated as landing at its end, so
+// (end − flows) / start is the trading return. Sub-periods are chained, which
+// makes the result independent of how much capital was in at any time.
+export function timeWeightedReturn(series: EquityPoint[], flows: CashFlowPoint[]): number {
+  let growth = 1;
+  for (let i = 1; i < series.length; i++) {
+    const a = series[i - 1], b = series[i];
+    if (a.equity <= 0) continue;
+    const moved = sum(flows.filter(f => f.t > a.t && f.t <= b.t).map(f => f.amount));
+    growth *= (b.equity - moved) / a.equity;
+  }
+  return (growth - 1) * 100;
+}
@@ -0,0 +1,135 @@
+// ────────────────────────────────────────────────────────────────────────────────
+// Async record storage
+//
+// A few named object stores of string-keyed records. Keys are namespaced as
+// `${scope}/${rest}` so one scope (a portfolio) can be read or cleared with a
+// prefix range. Backed by IndexedDB in the browser; memoryBackend() is a
+// drop-in for tests and for browsers where IndexedDB can't be opened.
+// "attachments" holds binary values (Blobs) next to the JSON-shaped ones.
+// "archive" holds finished sessions, which outlive the portfolio they came from.
+// ────────────────────────────────────────────────────────────────────────────────
+
+export const STORE_NAMES = ["settings", "entries", "fills", "history", "attachments", "archive"] as const;
+export type StoreName = (typeof STORE_NAMES)[number];
+
+export type WriteOp =
+  | { store: StoreName; put: string; value: unknown }
+  | { store: StoreName; del: string }
+  | { store: StoreName; clearPrefix: string };
+
+// Optimistic concurrency: the write only happens if `test` accepts the record
+// currently stored under `key`, checked inside the same transaction.
+export type WriteGuard = { store: StoreName; key: string; test: (current: unknown) => boolean };
+
+// A guarded write found the record changed by someone else (another tab)
+export class WriteConflict extends Error {
+  constructor() { super("The stored data was changed by another tab"); this.name = "WriteConflict"; }
+}
+
+export interface StorageBackend {
+  kind: "indexeddb" | "memory";
+  get(store: StoreName, key: string): Promise<unknown>;
+  // Values whose key starts with `prefix`, in key order
+  getPrefix(store: StoreName, prefix: string): Promise<unknown[]>;
+  // All ops commit together or not at all; rejects with WriteConflict when the guard fails
+  write(ops: WriteOp[], guard?: WriteGuard): Promise<void>;
+}
+
+const DB_NAME = "sol-paper-trader";
+const DB_VERSION = 3; // v2: attachments store, v3: archive store
+
+// Every key under `prefix` sorts between these two
+function prefixRange(prefix: string) { return IDBKeyRange.bound(prefix, prefix + "\uffff"); }
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function openIndexedDB(name = DB_NAME): Promise<StorageBackend> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") return reject(new Error("IndexedDB is not available"));
+    const open = indexedDB.open(name, DB_VERSION);
+    open.onupgradeneeded = () => {
+      for (const store of STORE_NAMES) if (!open.result.objectStoreNames.contains(store)) open.result.createObjectStore(store);
+    };
+    open.onerror = () => reject(open.error);
+    // onblocked: a tab still has the old version open. Not an error; once that tab
+    // closes the connection (see onversionchange below) the open goes ahead.
+    open.onsuccess = () => {
+      const db = open.result;
+      // A newer version is opening in another tab; step aside. Later writes here fail and show as unsaved.
+      db.onversionchange = () => db.close();
+      resolve({
+        kind: "indexeddb",
+        get: (store, key) => request(db.transaction(store).objectStore(store).get(key)),
+        getPrefix: (store, prefix) => request(db.transaction(store).objectStore(store).getAll(prefixRange(prefix))),
+        write(ops, guard) {
+          if (!ops.length) return Promise.resolve();
+          return new Promise((resolve, reject) => {
+            const stores = new Set(ops.map(op => op.store));
+            if (guard) stores.add(guard.store);
+            const tx = db.transaction([...stores], "readwrite");
+            let conflict = false;
+            const apply = () => {
+              for (const op of ops) {
+                const os = tx.objectStore(op.store);
+                if ("put" in op) os.put(op.value, op.put);
+                else if ("del" in op) os.delete(op.del);
+                else os.delete(prefixRange(op.clearPrefix));
+              }
+            };
+            if (!guard) apply();
+            else {
+              const current = tx.objectStore(guard.store).get(guard.key);
+              current.onsuccess = () => {
+                if (guard.test(current.result)) apply();
+                else { conflict = true; tx.abort(); }
+              };
+            }
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => { if (!conflict) reject(tx.error); };
+            tx.onabort = () => reject(conflict ? new WriteConflict() : tx.error ?? new Error("Transaction aborted"));
+          });
+        },
+      });
+    };
+  });
+}
+
+// Same contract, kept in a Map. Values are structured-cloned like IndexedDB does.
+export function memoryBackend(): StorageBackend {
+  const stores = new Map<StoreName, Map<string, unknown>>(STORE_NAMES.map(s => [s, new Map()]));
+  return {
+    kind: "memory",
+    async get(store, key) { const v = stores.get(store)!.get(key); return v === undefined ? undefined : structuredClone(v); },
+    async getPrefix(store, prefix) {
+      return [...stores.get(store)!.entries()]
+        .filter(([k]) => k.startsWith(prefix))
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([, v]) => structuredClone(v));
+    },
+    async write(ops, guard) {
+      if (guard && !guard.test(stores.get(guard.store)!.get(guard.key))) throw new WriteConflict();
+      const staged = new Map([...stores].map(([name, m]) => [name, new Map(m)]));
+      for (const op of ops) {
+        const m = staged.get(op.store)!;
+        if ("put" in op) m.set(op.put, structuredClone(op.value));
+        else if ("del" in op) m.delete(op.del);
+        else for (const k of [...m.keys()]) if (k.startsWith(op.clearPrefix)) m.delete(k);
+      }
+      for (const [name, m] of staged) stores.set(name, m);
+    },
+  };
+}
+
+let opened: Promise<StorageBackend> | null = null;
+
+// The app-wide backend: IndexedDB when it opens, otherwise an in-memory store
+// (data then lives only as long as the tab; check `kind`).
+export function openStorage(): Promise<StorageBackend> {
+  opened ??= openIndexedDB().catch(() => memoryBackend());
+  return opened;
+}